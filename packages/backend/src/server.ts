@@ -14,14 +14,34 @@ import {
   TrackingSession,
   startTracking,
   stopTracking,
+  pauseTracking,
+  resumeTracking,
+  isSessionPaused,
   sendSessionPulse,
   isSessionExpired,
+  isSessionIdle,
+  updateSessionActivity,
+  getSessionLastActivity,
   hasBranchChanged,
+  evaluateBranch,
   PULSE_INTERVAL_MS,
   // Config functionality
   getConfig,
+  getEffectiveConfig,
+  getActivityLog,
   // Worklog functionality
-  syncActivitiesForDate,
+  syncActivities,
+  getWorklogRules,
+  SyncResult,
+  getOutbox,
+  isOperationDue,
+  processOutbox,
+  ProcessedOperation,
+  // Automatic sync functionality
+  AutoSyncRun,
+  getAutoSyncSchedule,
+  getDueAutoSync,
+  toAutoSyncRun,
   // Git functionality
   getCurrentBranch,
 } from "@tempo-tracker/core";
@@ -30,6 +50,9 @@ import {
   PORT,
   IDLE_CHECK_INTERVAL_MS,
   BRANCH_CHECK_INTERVAL_MS,
+  HOOK_BRANCH_CHECK_INTERVAL_MS,
+  SYNC_RETRY_INTERVAL_MS,
+  AUTO_SYNC_CHECK_INTERVAL_MS,
 } from "@tempo-tracker/core";
 const LOG_DIR = path.join(os.tmpdir(), "tempo-daemon");
 const LOG_FILE = path.join(LOG_DIR, "daemon.log");
@@ -38,6 +61,7 @@ const STATE_FILE = path.join(LOG_DIR, "state.json");
 // State
 interface BackendState {
   activeSessions: TrackingSession[];
+  lastAutoSync?: AutoSyncRun;
 }
 
 let state: BackendState = {
@@ -49,6 +73,7 @@ const startTrackingSchema = z.object({
   branch: z.string(),
   directory: z.string(),
   issueId: z.number().optional(),
+  issueKey: z.string().optional(),
   description: z.string().optional(),
 });
 
@@ -56,8 +81,26 @@ const stopTrackingSchema = z.object({
   directory: z.string(),
 });
 
+const pauseTrackingSchema = z.object({
+  directory: z.string(),
+});
+
+const resumeTrackingSchema = z.object({
+  directory: z.string(),
+});
+
 const syncTempoSchema = z.object({
   date: z.string().optional(),
+  from: z.string().optional(),
+  to: z.string().optional(),
+  allUnsynced: z.boolean().optional(),
+  issue: z.string().optional(),
+  force: z.boolean().optional(),
+});
+
+const notifySchema = z.object({
+  directory: z.string(),
+  event: z.string().optional(),
 });
 
 // Server instance
@@ -65,6 +108,17 @@ let server: http.Server | null = null;
 let idleCheckInterval: NodeJS.Timeout | null = null;
 let pulseInterval: NodeJS.Timeout | null = null;
 let branchCheckInterval: NodeJS.Timeout | null = null;
+let outboxRetryInterval: NodeJS.Timeout | null = null;
+let autoSyncInterval: NodeJS.Timeout | null = null;
+let autoSyncInProgress = false;
+
+// Syncs and outbox retries run one at a time, so no worklog is sent twice
+let syncQueue: Promise<unknown> = Promise.resolve();
+
+// Repositories whose git hooks notify us, and when their branch was last checked
+const hookDirectories = new Set<string>();
+const lastBranchChecks = new Map<string, number>();
+const branchChecksInProgress = new Set<string>();
 
 /**
  * Initialize the log directory and file
@@ -123,6 +177,16 @@ function saveState() {
 async function handleStartTracking(
   params: z.infer<typeof startTrackingSchema>
 ): Promise<TrackingSession> {
+  // Reject ignored repositories, directories and branches before touching a
+  // running session
+  const branch = await getCurrentBranch(params.directory);
+  const { ignoreReason } = await evaluateBranch(params.directory, branch);
+
+  if (ignoreReason) {
+    log(`Not tracking ${params.directory}: ${ignoreReason}`);
+    throw new Error(ignoreReason);
+  }
+
   // Check if already tracking in this directory
   const existingIndex = state.activeSessions.findIndex(
     (session) => session.directory === params.directory
@@ -142,6 +206,7 @@ async function handleStartTracking(
   // Create new session
   const session = await startTracking(params.directory, {
     issueId: params.issueId,
+    issueKey: params.issueKey,
     description: params.description,
   });
 
@@ -171,7 +236,8 @@ async function handleStartTracking(
  * Handle stop tracking request
  */
 async function handleStopTracking(
-  params: z.infer<typeof stopTrackingSchema>
+  params: z.infer<typeof stopTrackingSchema>,
+  endTime?: Date
 ): Promise<TrackingSession | null> {
   // Find the session for this directory
   const index = state.activeSessions.findIndex(
@@ -188,7 +254,7 @@ async function handleStopTracking(
   log(`Stopping tracking for session ${session.id} in ${session.directory}`);
 
   // Add to activity log
-  await stopTracking(session);
+  await stopTracking(session, endTime);
 
   // Remove from active sessions
   state.activeSessions.splice(index, 1);
@@ -199,12 +265,95 @@ async function handleStopTracking(
   return session;
 }
 
+/**
+ * Handle pause tracking request
+ */
+async function handlePauseTracking(
+  params: z.infer<typeof pauseTrackingSchema>
+): Promise<TrackingSession | null> {
+  const index = state.activeSessions.findIndex(
+    (session) => session.directory === params.directory
+  );
+
+  if (index === -1) {
+    log(`No active session found for ${params.directory}`);
+    return null;
+  }
+
+  const session = pauseTracking(state.activeSessions[index]);
+  state.activeSessions[index] = session;
+  log(`Paused tracking for session ${session.id} in ${session.directory}`);
+
+  saveState();
+
+  return session;
+}
+
+/**
+ * Handle resume tracking request
+ */
+async function handleResumeTracking(
+  params: z.infer<typeof resumeTrackingSchema>
+): Promise<TrackingSession | null> {
+  const index = state.activeSessions.findIndex(
+    (session) => session.directory === params.directory
+  );
+
+  if (index === -1) {
+    log(`No active session found for ${params.directory}`);
+    return null;
+  }
+
+  const session = resumeTracking(state.activeSessions[index]);
+  state.activeSessions[index] = session;
+  log(`Resumed tracking for session ${session.id} in ${session.directory}`);
+
+  saveState();
+
+  return session;
+}
+
+/**
+ * Run a sync task after the ones already running
+ */
+function runExclusiveSync<T>(task: () => Promise<T>): Promise<T> {
+  const run = syncQueue.then(task);
+  syncQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Log the outbox operations that failed
+ */
+function logFailedOperations(processed: ProcessedOperation[]) {
+  for (const { operation, status, error } of processed) {
+    if (status === "failed") {
+      log(
+        `Tempo rejected ${operation.type} of worklog ${operation.tempoWorklogId ?? ""} on ${operation.date ?? "unknown date"}: ${error}`
+      );
+    } else if (status === "queued" && error) {
+      log(
+        `Queued ${operation.type} on ${operation.date ?? "unknown date"} for retry after attempt ${operation.attempts + 1}: ${error}`
+      );
+    }
+  }
+}
+
 /**
  * Handle sync tempo request
  */
 async function handleSyncTempo(
   params: z.infer<typeof syncTempoSchema>
-): Promise<{ synced: number; failed: number }> {
+): Promise<SyncResult> {
+  return runExclusiveSync(() => syncTempo(params));
+}
+
+/**
+ * Sync the selected days with Tempo
+ */
+async function syncTempo(
+  params: z.infer<typeof syncTempoSchema>
+): Promise<SyncResult> {
   const config = await getConfig();
 
   if (!config.apiKey) {
@@ -215,73 +364,279 @@ async function handleSyncTempo(
     throw new Error("Jira account ID not configured");
   }
 
-  // Use provided date or today
-  const date = params.date || new Date().toISOString().split("T")[0];
-
-  // Sync activities for the date
-  const result = await syncActivitiesForDate(
-    date,
+  // Sync the selected days, today if none are selected
+  const result = await syncActivities(
+    params,
     config.jiraAccountId,
     config.apiKey,
-    config.tempoBaseUrl
+    config.tempoBaseUrl,
+    getWorklogRules(config),
+    { force: params.force }
   );
 
-  log(`Synced ${result.synced} activities, failed ${result.failed}`);
+  for (const day of result.days) {
+    log(
+      `Synced ${day.synced} activities for ${day.date}, updated ${day.updated} worklogs, queued ${day.queued}, failed ${day.failed}, dropped ${day.dropped}`
+    );
+
+    if (day.error) {
+      log(`Failed to prepare worklogs for ${day.date}: ${day.error}`);
+    }
+  }
+
+  if (result.deleted > 0) {
+    log(`Deleted ${result.deleted} worklogs from Tempo`);
+  }
+
+  logFailedOperations(result.processed);
+
+  for (const invalid of result.invalid) {
+    log(
+      `Not syncing worklog on ${invalid.date} for ${invalid.issueKey ?? "unknown issue"}: ${invalid.problems.join(", ")}`
+    );
+  }
+
+  for (const duplicate of result.duplicates) {
+    log(
+      `Linked worklog on ${duplicate.date} to existing Tempo worklog ${duplicate.tempoWorklogId} instead of creating it`
+    );
+  }
 
   return result;
 }
 
+/**
+ * Send the due operations of the sync outbox to Tempo
+ */
+async function retryOutbox() {
+  const config = await getConfig();
+
+  if (!config.apiKey || !(await getOutbox()).some((op) => isOperationDue(op))) {
+    return;
+  }
+
+  const processed = await processOutbox(
+    config.apiKey,
+    config.tempoBaseUrl,
+    getWorklogRules(config).timeZone
+  );
+  const sent = processed.filter(({ status }) => status === "sent").length;
+
+  if (sent > 0) {
+    log(`Sent ${sent} of ${processed.length} queued worklog operations`);
+  }
+  logFailedOperations(processed);
+}
+
+/**
+ * Sync every finished entry waiting to be synced when the automatic sync
+ * schedule says so
+ */
+async function checkAutoSync() {
+  if (autoSyncInProgress) {
+    return;
+  }
+
+  const config = await getConfig();
+  const dueAt = getDueAutoSync(
+    getAutoSyncSchedule(config),
+    await getActivityLog(),
+    state.lastAutoSync && new Date(state.lastAutoSync.startedAt)
+  );
+
+  if (!dueAt) {
+    return;
+  }
+
+  autoSyncInProgress = true;
+  const startedAt = new Date();
+  log(`Starting automatic sync, due at ${dueAt.toISOString()}`);
+
+  try {
+    const result = await runExclusiveSync(() =>
+      syncTempo({ allUnsynced: true })
+    );
+    state.lastAutoSync = toAutoSyncRun(startedAt, result);
+    log(
+      `Automatic sync finished: synced ${result.synced} activities, updated ${result.updated} worklogs, queued ${result.queued}, failed ${result.failed}`
+    );
+  } catch (error: any) {
+    state.lastAutoSync = toAutoSyncRun(startedAt, error);
+    log(`Automatic sync failed: ${error.message}`);
+  } finally {
+    autoSyncInProgress = false;
+  }
+
+  saveState();
+}
+
 /**
  * Check for idle sessions
+ *
+ * Refreshes the last activity of every session from its working tree and
+ * stops the ones that have been idle for longer than the configured timeout,
+ * or that exceeded the maximum tracking time. Stopped sessions end at their
+ * last activity rather than at the time of the check.
  */
-function checkIdleSessions() {
-  const expiredSessions = state.activeSessions.filter(isSessionExpired);
-
-  if (expiredSessions.length > 0) {
-    log(`Found ${expiredSessions.length} expired sessions`);
-
-    // Stop each expired session
-    expiredSessions.forEach(async (session) => {
-      try {
-        await handleStopTracking({ directory: session.directory });
-        log(`Auto-stopped expired session ${session.id}`);
-      } catch (error) {
-        log(`Error stopping expired session ${session.id}: ${error}`);
+async function checkIdleSessions() {
+  for (const session of [...state.activeSessions]) {
+    try {
+      // The idle timeout can be configured per repository
+      const { config } = await getEffectiveConfig(session.directory);
+      const idleTimeoutMs = config.idleTimeoutMinutes * 60 * 1000;
+
+      const updatedSession = await updateSessionActivity(session);
+      const index = state.activeSessions.findIndex(
+        (activeSession) => activeSession.id === session.id
+      );
+      if (index === -1) {
+        continue;
       }
-    });
+      state.activeSessions[index] = updatedSession;
+
+      const idle = isSessionIdle(updatedSession, idleTimeoutMs);
+      if (!idle && !isSessionExpired(updatedSession)) {
+        continue;
+      }
+
+      const lastActivity = getSessionLastActivity(updatedSession);
+      log(
+        `Session ${session.id} is ${
+          idle ? "idle" : "expired"
+        }, last activity at ${lastActivity.toISOString()}`
+      );
+
+      await handleStopTracking(
+        { directory: updatedSession.directory },
+        lastActivity
+      );
+      log(`Auto-stopped ${idle ? "idle" : "expired"} session ${session.id}`);
+    } catch (error) {
+      log(`Error checking idle session ${session.id}: ${error}`);
+    }
+  }
+
+  saveState();
+}
+
+/**
+ * Handle a notification from a git hook
+ *
+ * Records the activity and checks the branch of the repository's session
+ * right away instead of waiting for the next poll.
+ */
+async function handleNotify(
+  params: z.infer<typeof notifySchema>
+): Promise<TrackingSession | null> {
+  hookDirectories.add(params.directory);
+
+  const index = state.activeSessions.findIndex(
+    (session) => session.directory === params.directory
+  );
+
+  if (index === -1) {
+    return null;
   }
+
+  log(
+    `Received ${params.event ?? "change"} notification for ${params.directory}`
+  );
+
+  state.activeSessions[index] = await updateSessionActivity(
+    state.activeSessions[index]
+  );
+  saveState();
+
+  await checkSessionBranch(state.activeSessions[index]);
+
+  return (
+    state.activeSessions.find(
+      (session) => session.directory === params.directory
+    ) ?? null
+  );
 }
 
 /**
  * Check for branch changes in active sessions
+ *
+ * Repositories with git hooks installed are notified of changes right
+ * away, so they are only polled as a fallback at a lower frequency.
  */
 async function checkBranchChanges() {
-  for (const session of state.activeSessions) {
-    try {
-      // Check if branch has changed
-      const branchChanged = await hasBranchChanged(session);
+  const now = Date.now();
+
+  // Iterate over a copy since sessions are replaced while iterating
+  for (const session of [...state.activeSessions]) {
+    const lastCheck = lastBranchChecks.get(session.directory) ?? 0;
+    if (
+      hookDirectories.has(session.directory) &&
+      now - lastCheck < HOOK_BRANCH_CHECK_INTERVAL_MS
+    ) {
+      continue;
+    }
+
+    await checkSessionBranch(session);
+  }
+}
 
-      if (branchChanged) {
-        log(`Branch changed for session ${session.id} in ${session.directory}`);
+/**
+ * Check if the branch of a session changed and restart tracking on the new
+ * branch if it did, or end the session if the new branch is ignored
+ */
+async function checkSessionBranch(session: TrackingSession) {
+  // Paused sessions are checked again once they are resumed
+  if (isSessionPaused(session)) {
+    return;
+  }
 
-        // Stop the current session
-        await handleStopTracking({ directory: session.directory });
+  // A hook and the poll can fire at the same time
+  if (branchChecksInProgress.has(session.directory)) {
+    return;
+  }
+
+  branchChecksInProgress.add(session.directory);
+  lastBranchChecks.set(session.directory, Date.now());
+
+  try {
+    // Check if branch has changed
+    const branchChanged = await hasBranchChanged(session);
+
+    if (branchChanged) {
+      log(`Branch changed for session ${session.id} in ${session.directory}`);
 
-        // Start a new session with the new branch
-        const newBranch = await getCurrentBranch(session.directory);
+      // Stop the current session
+      await handleStopTracking({ directory: session.directory });
 
-        await handleStartTracking({
-          branch: newBranch,
-          directory: session.directory,
-          issueId: session.issueId,
-          description: session.description,
-        });
+      // Start a new session with the new branch, unless it's ignored
+      const newBranch = await getCurrentBranch(session.directory);
+      const { ignoreReason } = await evaluateBranch(
+        session.directory,
+        newBranch
+      );
 
-        log(`Started new session for branch ${newBranch}`);
+      if (ignoreReason) {
+        log(`Ended session ${session.id} without restarting: ${ignoreReason}`);
+        return;
       }
-    } catch (error) {
-      log(`Error checking branch for session ${session.id}: ${error}`);
+
+      // Only carry over an explicit issue, inferred ones belong to the old branch
+      const keepIssue =
+        !session.issueSource || session.issueSource === "explicit";
+
+      await handleStartTracking({
+        branch: newBranch,
+        directory: session.directory,
+        issueId: keepIssue ? session.issueId : undefined,
+        issueKey: keepIssue ? session.issueKey : undefined,
+        description: session.description,
+      });
+
+      log(`Started new session for branch ${newBranch}`);
     }
+  } catch (error) {
+    log(`Error checking branch for session ${session.id}: ${error}`);
+  } finally {
+    branchChecksInProgress.delete(session.directory);
   }
 }
 
@@ -297,6 +652,11 @@ async function sendPulses() {
   }
 
   for (const session of state.activeSessions) {
+    // Paused sessions don't accrue time, so they get no pulses
+    if (isSessionPaused(session)) {
+      continue;
+    }
+
     try {
       await sendSessionPulse(session, config.apiKey, config.tempoBaseUrl);
       log(`Sent pulse for session ${session.id}`);
@@ -385,6 +745,38 @@ export function startServer(): Promise<void> {
               break;
             }
 
+            case "pause": {
+              try {
+                const params = pauseTrackingSchema.parse(data.params);
+                const session = await handlePauseTracking(params);
+                res.statusCode = 200;
+                res.end(JSON.stringify({ success: true, session }));
+              } catch (error: any) {
+                log(`Error handling pause command: ${error.message}`);
+                res.statusCode = 400;
+                res.end(
+                  JSON.stringify({ success: false, error: error.message })
+                );
+              }
+              break;
+            }
+
+            case "resume": {
+              try {
+                const params = resumeTrackingSchema.parse(data.params);
+                const session = await handleResumeTracking(params);
+                res.statusCode = 200;
+                res.end(JSON.stringify({ success: true, session }));
+              } catch (error: any) {
+                log(`Error handling resume command: ${error.message}`);
+                res.statusCode = 400;
+                res.end(
+                  JSON.stringify({ success: false, error: error.message })
+                );
+              }
+              break;
+            }
+
             case "status": {
               res.statusCode = 200;
               res.end(
@@ -392,6 +784,7 @@ export function startServer(): Promise<void> {
                   success: true,
                   isRunning: true,
                   activeSessions: state.activeSessions,
+                  lastAutoSync: state.lastAutoSync,
                 })
               );
               break;
@@ -413,6 +806,22 @@ export function startServer(): Promise<void> {
               break;
             }
 
+            case "notify": {
+              try {
+                const params = notifySchema.parse(data.params);
+                const session = await handleNotify(params);
+                res.statusCode = 200;
+                res.end(JSON.stringify({ success: true, session }));
+              } catch (error: any) {
+                log(`Error handling notify command: ${error.message}`);
+                res.statusCode = 400;
+                res.end(
+                  JSON.stringify({ success: false, error: error.message })
+                );
+              }
+              break;
+            }
+
             default: {
               res.statusCode = 400;
               res.end(
@@ -477,6 +886,20 @@ export function setupIntervals() {
       log(`Error checking branches: ${error}`);
     }
   }, BRANCH_CHECK_INTERVAL_MS);
+
+  // Retry the worklog operations that couldn't be sent yet
+  outboxRetryInterval = setInterval(() => {
+    runExclusiveSync(retryOutbox).catch((error) => {
+      log(`Error retrying the sync outbox: ${error}`);
+    });
+  }, SYNC_RETRY_INTERVAL_MS);
+
+  // Sync on the configured schedule
+  autoSyncInterval = setInterval(() => {
+    checkAutoSync().catch((error) => {
+      log(`Error checking the automatic sync: ${error}`);
+    });
+  }, AUTO_SYNC_CHECK_INTERVAL_MS);
 }
 
 /**
@@ -501,6 +924,16 @@ export function cleanup() {
     branchCheckInterval = null;
   }
 
+  if (outboxRetryInterval) {
+    clearInterval(outboxRetryInterval);
+    outboxRetryInterval = null;
+  }
+
+  if (autoSyncInterval) {
+    clearInterval(autoSyncInterval);
+    autoSyncInterval = null;
+  }
+
   // Close server
   if (server) {
     server.close();
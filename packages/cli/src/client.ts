@@ -10,13 +10,19 @@ import {
   getCurrentBranch,
   REQUEST_TIMEOUT_MS,
   SERVER_URL,
+  SYNC_REQUEST_TIMEOUT_MS,
+  SyncFilter,
+  SyncOptions,
+  SyncResult,
   TrackingSession,
+  AutoSyncRun,
 } from "@tempo-tracker/core";
 import { isDaemonRunning } from "@nicorodri/tempo-daemon";
 
 export interface StatusResponse {
   isRunning: boolean;
   activeSessions: TrackingSession[];
+  lastAutoSync?: AutoSyncRun;
 }
 
 /**
@@ -50,6 +56,7 @@ export async function getStatus(): Promise<StatusResponse> {
     return {
       isRunning: response.data.isRunning,
       activeSessions: response.data.activeSessions || [],
+      lastAutoSync: response.data.lastAutoSync,
     };
   } catch (error: any) {
     handleAxiosError(error);
@@ -63,6 +70,7 @@ export async function getStatus(): Promise<StatusResponse> {
 export async function startTracking(options: {
   description?: string;
   issueId?: number;
+  issueKey?: string;
 }): Promise<TrackingSession> {
   await ensureDaemonRunning();
 
@@ -90,6 +98,7 @@ export async function startTracking(options: {
           branch,
           directory: gitRoot,
           issueId: options.issueId,
+          issueKey: options.issueKey,
           description: options.description,
         },
       },
@@ -148,12 +157,95 @@ export async function stopTracking(): Promise<TrackingSession | null> {
   }
 }
 
+/**
+ * Pause tracking time in the current directory
+ */
+export async function pauseTracking(): Promise<TrackingSession | null> {
+  return sendSessionCommand("pause", "Failed to pause tracking");
+}
+
+/**
+ * Resume tracking time in the current directory
+ */
+export async function resumeTracking(): Promise<TrackingSession | null> {
+  return sendSessionCommand("resume", "Failed to resume tracking");
+}
+
+/**
+ * Send a command that targets the session of the current repository
+ */
+async function sendSessionCommand(
+  command: "pause" | "resume",
+  failureMessage: string
+): Promise<TrackingSession | null> {
+  await ensureDaemonRunning();
+
+  // Check if we're in a git repository
+  const gitRoot = findGitRoot(process.cwd());
+  if (!gitRoot) {
+    throw new Error(
+      `Not in a git repository. Please navigate to a git repository to ${command} tracking.`
+    );
+  }
+
+  try {
+    const response = await axios.post(
+      SERVER_URL,
+      {
+        command,
+        params: {
+          directory: gitRoot,
+        },
+      },
+      { timeout: REQUEST_TIMEOUT_MS }
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.error || failureMessage);
+    }
+
+    return response.data.session;
+  } catch (error: any) {
+    handleAxiosError(error);
+    throw error;
+  }
+}
+
+/**
+ * Tell the daemon about a change in the current repository
+ *
+ * Called from git hooks, so it does nothing if the daemon isn't running or
+ * the current directory isn't a git repository.
+ */
+export async function notifyRepositoryChange(event: string): Promise<void> {
+  const gitRoot = findGitRoot(process.cwd());
+  if (!gitRoot || !isDaemonRunning()) {
+    return;
+  }
+
+  try {
+    await axios.post(
+      SERVER_URL,
+      {
+        command: "notify",
+        params: {
+          directory: gitRoot,
+          event,
+        },
+      },
+      { timeout: REQUEST_TIMEOUT_MS }
+    );
+  } catch (error: any) {
+    handleAxiosError(error);
+  }
+}
+
 /**
  * Sync with Tempo
  */
-export async function syncTempo(options: {
-  date?: string;
-}): Promise<{ synced: number; failed: number }> {
+export async function syncTempo(
+  options: SyncFilter & SyncOptions
+): Promise<SyncResult> {
   await ensureDaemonRunning();
 
   try {
@@ -164,7 +256,7 @@ export async function syncTempo(options: {
         command: "sync",
         params: options,
       },
-      { timeout: REQUEST_TIMEOUT_MS }
+      { timeout: SYNC_REQUEST_TIMEOUT_MS }
     );
 
     if (!response.data.success) {
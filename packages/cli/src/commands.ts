@@ -7,18 +7,89 @@
 import chalk from "chalk";
 import inquirer from "inquirer";
 import Table from "cli-table3";
+import path from "path";
 import {
   // Utility functions
   formatDate,
-  formatDuration,
+  formatDurationMs,
+  formatIssue,
+  formatLocalDate,
+  formatLocalTime,
+  resolveTimeZone,
+  isValidTimeZone,
+  parseLocalDateTime,
+  parseLocalEndTime,
   // Config functions
   getConfig,
+  getEffectiveConfig,
+  ProjectConfigKey,
   updateConfig,
   getActivityLog,
+  addActivityLog,
   clearActivityLog,
   ConfigType,
   // Git functions
   findGitRoot,
+  getRepositoryName,
+  // Rule functions
+  findBranchRule,
+  describeBranchRule,
+  inferIssueKeyFromBranch,
+  isBranchIgnored,
+  isRepositoryIgnored,
+  // Jira functions
+  parseIssueReference,
+  resolveIssueReference,
+  // Reconstruction functions
+  reconstructActivities,
+  getReconstructionHeuristics,
+  ReconstructedActivity,
+  // Worklog functions
+  SyncFilter,
+  SyncOptions,
+  SkippedDuplicate,
+  DaySyncResult,
+  ProcessedOperation,
+  previewWorklogSync,
+  getBookedDurations,
+  getWorklogRules,
+  // Tracking functions
+  TrackingSession,
+  getActivityDurationMs,
+  addManualActivity,
+  getActivityById,
+  getActivityRepository,
+  filterActivities,
+  deleteActivities,
+  hasUnlinkedSyncedWork,
+  shortActivityId,
+  editActivity,
+  splitActivity,
+  mergeActivities,
+  ActivityLogEntry,
+  getSessionActiveDurationMs,
+  isSessionPaused,
+  // Outbox functions
+  getOutbox,
+  removeOperations,
+  OutboxOperation,
+  // Remote worklog functions
+  RemoteWorklog,
+  compareWorklogs,
+  diffWorklogs,
+  filterRemoteWorklogs,
+  getRemoteWorklogs,
+  pullRemoteWorklogs,
+  // Automatic sync functions
+  AutoSyncRun,
+  getAutoSyncSchedule,
+  describeAutoSyncSchedule,
+  // Hook functions
+  installGitHooks,
+  uninstallGitHooks,
+  HookInstallation,
+  // Constants
+  DEFAULT_DESCRIPTION_TEMPLATE,
 } from "@tempo-tracker/core";
 
 // Import daemon functions from the dedicated daemon package
@@ -30,7 +101,15 @@ import {
 } from "@tempo-tracker/daemon";
 
 // Client functions (will need to be implemented in the CLI package or imported from a client package)
-import { getStatus, startTracking, stopTracking, syncTempo } from "./client";
+import {
+  getStatus,
+  startTracking,
+  stopTracking,
+  pauseTracking,
+  resumeTracking,
+  syncTempo,
+  notifyRepositoryChange,
+} from "./client";
 
 /**
  * Start tracking with error handling
@@ -38,12 +117,15 @@ import { getStatus, startTracking, stopTracking, syncTempo } from "./client";
 export async function startTrackingWithErrorHandling(
   options: {
     description?: string;
-    issueId?: number;
+    issue?: string;
     branch?: string;
     directory?: string;
   } = {}
 ): Promise<void> {
   try {
+    // Validate the issue before doing anything else
+    const issue = options.issue ? parseIssueReference(options.issue) : {};
+
     // Check if daemon is running
     if (!isDaemonRunning()) {
       console.log(chalk.yellow("Daemon is not running. Starting it now..."));
@@ -62,7 +144,7 @@ export async function startTrackingWithErrorHandling(
 
     // Start tracking with required parameters
     const session = await startTracking({
-      issueId: options.issueId,
+      ...issue,
       description: options.description,
     });
 
@@ -71,8 +153,14 @@ export async function startTrackingWithErrorHandling(
       chalk.cyan(session.branch)
     );
 
-    if (options.issueId) {
-      console.log(`  Issue: ${chalk.cyan(options.issueId)}`);
+    if (session.issueId || session.issueKey) {
+      console.log(
+        `  Issue: ${chalk.cyan(formatIssue(session))}${
+          session.issueSource === "branch"
+            ? chalk.gray(" (from branch name)")
+            : ""
+        }`
+      );
     }
 
     if (options.description) {
@@ -131,20 +219,15 @@ export async function stopTrackingWithErrorHandling(): Promise<void> {
       return;
     }
 
-    // Calculate duration
-    const startTime = new Date(session.startTime);
-    const endTime = new Date();
-    const durationMs = endTime.getTime() - startTime.getTime();
-    const durationMinutes = Math.round(durationMs / 60000);
-    const hours = Math.floor(durationMinutes / 60);
-    const minutes = durationMinutes % 60;
+    // Calculate duration, excluding paused time
+    const durationMs = getSessionActiveDurationMs(session);
 
     console.log(chalk.green("✓ Stopped tracking time"));
     console.log(`  Branch: ${chalk.cyan(session.branch)}`);
-    console.log(`  Duration: ${chalk.cyan(`${hours}h ${minutes}m`)}`);
+    console.log(`  Duration: ${chalk.cyan(formatDurationMs(durationMs))}`);
 
-    if (session.issueId) {
-      console.log(`  Issue: ${chalk.cyan(session.issueId)}`);
+    if (session.issueId || session.issueKey) {
+      console.log(`  Issue: ${chalk.cyan(formatIssue(session))}`);
     }
 
     if (session.description) {
@@ -158,6 +241,58 @@ export async function stopTrackingWithErrorHandling(): Promise<void> {
   }
 }
 
+/**
+ * Pause tracking with error handling
+ */
+export async function pauseTrackingWithErrorHandling(): Promise<void> {
+  try {
+    const session = await pauseTracking();
+
+    if (!session) {
+      console.log(
+        chalk.yellow("No active tracking session for this repository.")
+      );
+      return;
+    }
+
+    console.log(
+      chalk.green("✓ Paused tracking time on branch:"),
+      chalk.cyan(session.branch)
+    );
+    console.log(
+      `  Tracked so far: ${chalk.cyan(
+        formatDurationMs(getSessionActiveDurationMs(session))
+      )}`
+    );
+    console.log(chalk.blue("  Use 'tempo resume' to continue tracking."));
+  } catch (error: any) {
+    console.error(chalk.red(`✗ Error: ${error.message}`));
+  }
+}
+
+/**
+ * Resume tracking with error handling
+ */
+export async function resumeTrackingWithErrorHandling(): Promise<void> {
+  try {
+    const session = await resumeTracking();
+
+    if (!session) {
+      console.log(
+        chalk.yellow("No active tracking session for this repository.")
+      );
+      return;
+    }
+
+    console.log(
+      chalk.green("✓ Resumed tracking time on branch:"),
+      chalk.cyan(session.branch)
+    );
+  } catch (error: any) {
+    console.error(chalk.red(`✗ Error: ${error.message}`));
+  }
+}
+
 /**
  * Status tracking with error handling
  */
@@ -174,6 +309,7 @@ export async function statusTrackingWithErrorHandling(): Promise<void> {
 
     // Get status from daemon
     const status = await getStatus();
+    const { timeZone } = await getConfig();
 
     // Get the current working directory
     const cwd = process.cwd();
@@ -196,7 +332,7 @@ export async function statusTrackingWithErrorHandling(): Promise<void> {
         console.log(
           chalk.green("✓ Active tracking session for this repository:")
         );
-        displaySession(sessionForThisRepo);
+        displaySession(sessionForThisRepo, timeZone);
 
         // If there are other sessions, show them too
         const otherSessions = status.activeSessions.filter(
@@ -206,7 +342,7 @@ export async function statusTrackingWithErrorHandling(): Promise<void> {
         if (otherSessions.length > 0) {
           console.log(chalk.blue("\nOther active tracking sessions:"));
           otherSessions.forEach((session) => {
-            displaySession(session);
+            displaySession(session, timeZone);
           });
         }
 
@@ -218,7 +354,7 @@ export async function statusTrackingWithErrorHandling(): Promise<void> {
     // show all active sessions
     console.log(chalk.blue("Active tracking sessions:"));
     status.activeSessions.forEach((session) => {
-      displaySession(session);
+      displaySession(session, timeZone);
     });
   } catch (error: any) {
     console.error(chalk.red(`✗ Error: ${error.message}`));
@@ -228,38 +364,46 @@ export async function statusTrackingWithErrorHandling(): Promise<void> {
 /**
  * Display a session in a formatted way
  */
-function displaySession(session: any): void {
-  console.log(`\n  Repository: ${chalk.cyan(session.directory)}`);
+function displaySession(session: TrackingSession, timeZone?: string): void {
+  console.log(
+    `\n  Repository: ${chalk.cyan(session.repository ?? session.directory)}`
+  );
+  if (session.repository && session.repository !== session.directory) {
+    console.log(`  Worktree: ${chalk.cyan(session.directory)}`);
+  }
   console.log(`  Branch: ${chalk.cyan(session.branch)}`);
   console.log(
-    `  Started: ${chalk.cyan(new Date(session.startTime).toLocaleString())}`
+    `  Started: ${chalk.cyan(formatDate(session.startTime, timeZone))}`
   );
 
-  if (session.issueId) {
-    console.log(`  Issue: ${chalk.cyan(session.issueId)}`);
+  if (isSessionPaused(session)) {
+    console.log(`  State: ${chalk.yellow("Paused")}`);
+  }
+
+  if (session.issueId || session.issueKey) {
+    console.log(`  Issue: ${chalk.cyan(formatIssue(session))}`);
   }
 
   if (session.description) {
     console.log(`  Description: ${chalk.cyan(session.description)}`);
   }
 
-  // Calculate duration
-  const startTime = new Date(session.startTime);
-  const now = new Date();
-  const durationMs = now.getTime() - startTime.getTime();
-  const durationMinutes = Math.round(durationMs / 60000);
-  const hours = Math.floor(durationMinutes / 60);
-  const minutes = durationMinutes % 60;
+  // Calculate duration, excluding paused time
+  const durationMs = getSessionActiveDurationMs(session);
 
-  console.log(`  Duration: ${chalk.cyan(`${hours}h ${minutes}m`)}`);
+  console.log(`  Duration: ${chalk.cyan(formatDurationMs(durationMs))}`);
 }
 
 /**
  * Sync with Tempo with error handling
  */
 export async function syncTempoWithErrorHandling(
-  options: { date?: string } = {}
+  options: SyncFilter & SyncOptions & { dryRun?: boolean } = {}
 ): Promise<void> {
+  if (options.dryRun) {
+    return previewSyncCommand(options);
+  }
+
   try {
     // Check if daemon is running
     if (!(await isDaemonRunning())) {
@@ -271,27 +415,344 @@ export async function syncTempoWithErrorHandling(
     // Sync with Tempo
     const result = await syncTempo(options);
 
-    if (result.synced === 0 && result.failed === 0) {
+    if (result.days.length === 0 && result.deleted === 0) {
       console.log(
-        chalk.yellow("No activities to sync for the specified date.")
+        chalk.yellow("No activities to sync for the specified dates.")
       );
       return;
     }
 
+    if (result.days.length > 0) {
+      displaySyncDays(result.days);
+    }
+
     if (result.synced > 0) {
       console.log(chalk.green(`✓ Synced ${result.synced} activities to Tempo`));
     }
 
+    if (result.updated > 0) {
+      console.log(chalk.green(`✓ Updated ${result.updated} worklogs in Tempo`));
+    }
+
+    if (result.deleted > 0) {
+      console.log(
+        chalk.green(`✓ Deleted ${result.deleted} worklogs from Tempo`)
+      );
+    }
+
+    if (result.queued > 0) {
+      console.log(
+        chalk.yellow(
+          `⚠ Queued ${result.queued} activities, the daemon retries them. Run 'tempo sync status' to see the queue.`
+        )
+      );
+    }
+
     if (result.failed > 0) {
       console.log(
         chalk.yellow(`⚠ Failed to sync ${result.failed} activities`)
       );
+      result.days
+        .filter((day) => day.error)
+        .forEach((day) => console.log(`  ${day.date} ${chalk.red(day.error)}`));
+      result.invalid.forEach((invalid) =>
+        console.log(
+          `  ${invalid.date} ${chalk.cyan(
+            invalid.issueKey ?? "N/A"
+          )} ${chalk.red(invalid.problems.join(", "))}`
+        )
+      );
+      result.processed
+        .filter(({ status }) => status === "failed")
+        .forEach(displayRejectedOperation);
+    }
+
+    if (result.dropped > 0) {
+      console.log(
+        chalk.gray(
+          `  Skipped ${result.dropped} activities below the minimum duration`
+        )
+      );
+    }
+
+    if (result.duplicates.length > 0) {
+      console.log(
+        chalk.yellow(
+          `⚠ Linked ${result.duplicates.length} worklogs to matching ones already in Tempo instead of creating them:`
+        )
+      );
+      result.duplicates.forEach(displaySkippedDuplicate);
+      console.log(
+        chalk.gray("  Use --force to create new worklogs instead of linking.")
+      );
+    }
+  } catch (error: any) {
+    console.error(chalk.red(`✗ Error: ${error.message}`));
+  }
+}
+
+/**
+ * Print an outbox operation Tempo rejected, with the reason
+ */
+function displayRejectedOperation({ operation, error }: ProcessedOperation) {
+  console.log(
+    `  ${operation.date ?? ""} ${chalk.cyan(
+      operation.issueKey ?? operation.worklog?.issueId ?? ""
+    )} ${chalk.red(error ?? "")}`
+  );
+}
+
+/**
+ * Print a worklog that was linked to a duplicate in Tempo
+ */
+function displaySkippedDuplicate(duplicate: SkippedDuplicate): void {
+  const { worklog } = duplicate;
+
+  console.log(
+    `  ${worklog.startDate} ${worklog.startTime} ${chalk.cyan(
+      formatDurationMs(worklog.timeSpentSeconds * 1000)
+    )} ${chalk.cyan(duplicate.issueKey ?? worklog.issueId)} ${chalk.gray(
+      `matches Tempo worklog ${duplicate.tempoWorklogId}`
+    )}`
+  );
+}
+
+/**
+ * Show the worklogs a sync would create without sending anything
+ *
+ * Duplicates of worklogs already in Tempo are only flagged when the Tempo
+ * API key is configured.
+ */
+async function previewSyncCommand(
+  filter: SyncFilter & SyncOptions
+): Promise<void> {
+  try {
+    const config = await getConfig();
+    const preview = await previewWorklogSync(
+      filter,
+      config.jiraAccountId ?? "",
+      getWorklogRules(config),
+      config.apiKey && config.jiraAccountId
+        ? {
+            apiKey: config.apiKey,
+            tempoBaseUrl: config.tempoBaseUrl,
+            force: filter.force,
+          }
+        : undefined
+    );
+
+    if (preview.worklogs.length === 0 && preview.deletions.length === 0) {
+      console.log(
+        chalk.yellow("No activities to sync for the specified dates.")
+      );
+      return;
+    }
+
+    const table = new Table({
+      head: [
+        chalk.white.bold("Action"),
+        chalk.white.bold("Issue"),
+        chalk.white.bold("Date"),
+        chalk.white.bold("Start"),
+        chalk.white.bold("Duration"),
+        chalk.white.bold("Description"),
+        chalk.white.bold("Problems"),
+      ],
+      colWidths: [14, 20, 12, 8, 10, 32, 30],
+      wordWrap: true,
+    });
+
+    for (const {
+      date,
+      issueKey,
+      worklog,
+      tempoWorklogId,
+      problems,
+    } of preview.worklogs) {
+      const issue = worklog
+        ? issueKey
+          ? `${issueKey} (${worklog.issueId})`
+          : `${worklog.issueId}`
+        : (issueKey ?? "");
+
+      table.push([
+        tempoWorklogId ? `Update ${tempoWorklogId}` : "Create",
+        issue,
+        worklog?.startDate ?? date,
+        worklog?.startTime ?? chalk.gray("N/A"),
+        worklog
+          ? formatDurationMs(worklog.timeSpentSeconds * 1000)
+          : chalk.gray("N/A"),
+        worklog?.description ?? "",
+        problems.length > 0
+          ? chalk.red(problems.join("\n"))
+          : chalk.green("OK"),
+      ]);
+    }
+
+    if (preview.worklogs.length > 0) {
+      console.log(table.toString());
+    }
+
+    const invalid = preview.worklogs.filter(
+      (entry) => entry.problems.length > 0
+    ).length;
+
+    console.log(
+      chalk.blue(
+        `Dry run: ${preview.worklogs.length - invalid} worklogs would be sent, nothing was synced`
+      )
+    );
+
+    if (preview.deletions.length > 0) {
+      console.log(
+        chalk.blue(
+          `  Tempo worklogs that would be deleted: ${preview.deletions.join(", ")}`
+        )
+      );
+    }
+
+    if (invalid > 0) {
+      console.log(
+        chalk.yellow(
+          `⚠ ${invalid} entries would be skipped or fail validation`
+        )
+      );
+    }
+
+    if (preview.dropped > 0) {
+      console.log(
+        chalk.gray(
+          `  Skipped ${preview.dropped} activities below the minimum duration`
+        )
+      );
+    }
+  } catch (error: any) {
+    console.error(chalk.red(`✗ Error: ${error.message}`));
+  }
+}
+
+/**
+ * Display the per-day totals of a sync
+ */
+function displaySyncDays(days: DaySyncResult[]): void {
+  const table = new Table({
+    head: [
+      chalk.white.bold("Date"),
+      chalk.white.bold("Synced"),
+      chalk.white.bold("Updated"),
+      chalk.white.bold("Duplicates"),
+      chalk.white.bold("Queued"),
+      chalk.white.bold("Failed"),
+      chalk.white.bold("Skipped"),
+      chalk.white.bold("Booked"),
+    ],
+    colWidths: [14, 10, 10, 12, 10, 10, 10, 12],
+  });
+
+  for (const day of days) {
+    table.push([
+      day.date,
+      day.synced > 0 ? chalk.green(day.synced) : chalk.gray(0),
+      day.updated > 0 ? chalk.green(day.updated) : chalk.gray(0),
+      day.duplicates > 0 ? chalk.yellow(day.duplicates) : chalk.gray(0),
+      day.queued > 0 ? chalk.yellow(day.queued) : chalk.gray(0),
+      day.failed > 0 ? chalk.red(day.failed) : chalk.gray(0),
+      day.dropped > 0 ? chalk.yellow(day.dropped) : chalk.gray(0),
+      chalk.cyan(formatDurationMs(day.bookedSeconds * 1000)),
+    ]);
+  }
+
+  console.log(table.toString());
+}
+
+/**
+ * Show the worklog operations waiting in the sync outbox
+ */
+export async function syncStatusCommand(options: {
+  clearFailed?: boolean;
+}): Promise<void> {
+  try {
+    const { timeZone } = await getConfig();
+    let outbox = await getOutbox();
+
+    if (options.clearFailed) {
+      const failed = outbox.filter((operation) => operation.failed);
+      await removeOperations(failed.map((operation) => operation.id));
+      console.log(chalk.green(`✓ Removed ${failed.length} failed operations`));
+      outbox = await getOutbox();
+    }
+
+    if (outbox.length === 0) {
+      console.log(chalk.green("✓ Nothing is waiting to be synced"));
+      return;
+    }
+
+    const table = new Table({
+      head: [
+        chalk.white.bold("Action"),
+        chalk.white.bold("Issue"),
+        chalk.white.bold("Date"),
+        chalk.white.bold("Duration"),
+        chalk.white.bold("Attempts"),
+        chalk.white.bold("Next attempt"),
+        chalk.white.bold("Last error"),
+      ],
+      colWidths: [14, 14, 12, 10, 10, 18, 36],
+      wordWrap: true,
+    });
+
+    for (const operation of outbox) {
+      table.push([
+        formatOutboxAction(operation),
+        operation.issueKey ?? operation.worklog?.issueId ?? "",
+        operation.date ?? chalk.gray("N/A"),
+        operation.worklog
+          ? formatDurationMs(operation.worklog.timeSpentSeconds * 1000)
+          : chalk.gray("N/A"),
+        operation.attempts,
+        operation.failed
+          ? chalk.red("Failed")
+          : operation.nextAttemptAt
+            ? formatDate(operation.nextAttemptAt, timeZone)
+            : chalk.green("Now"),
+        operation.lastError ? chalk.red(operation.lastError) : "",
+      ]);
+    }
+
+    console.log(table.toString());
+
+    const failed = outbox.filter((operation) => operation.failed).length;
+    console.log(
+      chalk.blue(`${outbox.length - failed} operations waiting to be retried`)
+    );
+
+    if (failed > 0) {
+      console.log(
+        chalk.yellow(
+          `⚠ Tempo rejected ${failed} operations. Fix the entries and sync again, or remove them with --clear-failed.`
+        )
+      );
     }
   } catch (error: any) {
     console.error(chalk.red(`✗ Error: ${error.message}`));
   }
 }
 
+/**
+ * Describe the action of an outbox operation
+ */
+function formatOutboxAction(operation: OutboxOperation): string {
+  switch (operation.type) {
+    case "create":
+      return "Create";
+    case "update":
+      return `Update ${operation.tempoWorklogId}`;
+    case "delete":
+      return `Delete ${operation.tempoWorklogId}`;
+  }
+}
+
 /**
  * Handle config deletion prompt
  */
@@ -359,212 +820,1685 @@ export async function setJiraAccountIdCommand(id: string): Promise<void> {
 }
 
 /**
- * Show config command
+ * Set Jira base URL command
  */
-export async function showConfigCommand(): Promise<void> {
+export async function setJiraBaseUrlCommand(url: string): Promise<void> {
   try {
-    const config = await getConfig();
+    if (!/^https?:\/\//.test(url)) {
+      throw new Error("Jira base URL must start with http:// or https://");
+    }
 
-    console.log(chalk.blue("Current configuration:"));
-    console.log(`  Tempo Base URL: ${chalk.cyan(config.tempoBaseUrl)}`);
-    console.log(
-      `  API Key: ${
-        config.apiKey
-          ? chalk.cyan(`${config.apiKey.substring(0, 4)}...`)
-          : chalk.yellow("Not set")
-      }`
-    );
-    console.log(
-      `  Jira Account ID: ${
-        config.jiraAccountId
-          ? chalk.cyan(config.jiraAccountId)
-          : chalk.yellow("Not set")
-      }`
-    );
+    await updateConfig({ jiraBaseUrl: url.replace(/\/+$/, "") });
+    console.log(chalk.green("✓ Jira base URL updated successfully"));
   } catch (error: any) {
     console.error(chalk.red(`✗ Error: ${error.message}`));
   }
 }
 
 /**
- * Display options for worklog listing
+ * Set Jira email command
  */
-export interface WorklogDisplayOptions {
-  limit?: number;
-  date?: string;
-  branch?: string;
-  issueId?: number;
-  all?: boolean;
-  format?: "table" | "json";
+export async function setJiraEmailCommand(email: string): Promise<void> {
+  try {
+    await updateConfig({ jiraEmail: email });
+    console.log(chalk.green("✓ Jira email updated successfully"));
+  } catch (error: any) {
+    console.error(chalk.red(`✗ Error: ${error.message}`));
+  }
 }
 
 /**
- * Display worklogs in a table format
+ * Set Jira API token command
  */
-export async function displayWorklogs(
-  options: WorklogDisplayOptions = {}
-): Promise<void> {
+export async function setJiraApiTokenCommand(token: string): Promise<void> {
   try {
-    const activities = await getActivityLog();
+    const config = await getConfig();
 
-    if (activities.length === 0) {
-      console.log(chalk.yellow("No activity logs found."));
-      return;
+    if (config.jiraApiToken && config.jiraApiToken !== token) {
+      const action = await handleConfigDeletionPrompt(
+        "jiraApiToken",
+        `${config.jiraApiToken.substring(0, 4)}...`
+      );
+      if (action === "abort") {
+        console.log(chalk.yellow("Operation aborted."));
+        return;
+      }
     }
 
-    // Apply filters
-    let filteredActivities = [...activities];
-
-    // Filter by date
-    if (options.date) {
-      const dateStart = new Date(options.date);
-      dateStart.setHours(0, 0, 0, 0);
-
-      const dateEnd = new Date(options.date);
-      dateEnd.setHours(23, 59, 59, 999);
+    await updateConfig({ jiraApiToken: token });
+    console.log(chalk.green("✓ Jira API token updated successfully"));
+  } catch (error: any) {
+    console.error(chalk.red(`✗ Error: ${error.message}`));
+  }
+}
 
-      filteredActivities = filteredActivities.filter((activity) => {
-        const activityDate = new Date(activity.startTime);
-        return activityDate >= dateStart && activityDate <= dateEnd;
-      });
+/**
+ * Set branch issue pattern command
+ */
+export async function setBranchPatternCommand(pattern: string): Promise<void> {
+  try {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern);
+    } catch (error: any) {
+      throw new Error(`Invalid regular expression: ${error.message}`);
     }
 
-    // Filter by branch
-    if (options.branch) {
-      filteredActivities = filteredActivities.filter(
-        (activity) => activity.branch === options.branch
+    // A capture group is required to know which part of the branch is the key
+    if (new RegExp(`${regex.source}|`).exec("")!.length < 2) {
+      throw new Error(
+        "The pattern needs a capture group around the issue key, e.g. ([A-Z]+-\\d+)"
       );
     }
 
-    // Filter by issue ID
-    if (options.issueId) {
-      filteredActivities = filteredActivities.filter(
-        (activity) => activity.issueId === options.issueId
-      );
+    await updateConfig({ branchIssuePattern: pattern });
+    console.log(chalk.green("✓ Branch issue pattern updated successfully"));
+  } catch (error: any) {
+    console.error(chalk.red(`✗ Error: ${error.message}`));
+  }
+}
+
+/**
+ * Set worklog rounding command
+ */
+export async function setRoundingCommand(
+  mode: string,
+  minutes?: string
+): Promise<void> {
+  try {
+    if (!["none", "nearest", "up", "down"].includes(mode)) {
+      throw new Error("Rounding mode must be one of: none, nearest, up, down");
     }
 
-    // Filter by synced status
-    if (!options.all) {
-      filteredActivities = filteredActivities.filter(
-        (activity) => !activity.synced
-      );
+    const roundingMinutes = minutes === undefined ? undefined : Number(minutes);
+    if (
+      roundingMinutes !== undefined &&
+      (!Number.isInteger(roundingMinutes) || roundingMinutes <= 0)
+    ) {
+      throw new Error("Rounding must be a positive whole number of minutes");
     }
 
-    // Sort by start time (newest first)
-    filteredActivities.sort(
-      (a, b) =>
-        new Date(b.startTime).getTime() - new Date(a.startTime).getTime()
-    );
+    await updateConfig({
+      roundingMode: mode as ConfigType["roundingMode"],
+      ...(roundingMinutes !== undefined ? { roundingMinutes } : {}),
+    });
+
+    const config = await getConfig();
+    console.log(
+      chalk.green(
+        mode === "none"
+          ? "✓ Worklog rounding disabled"
+          : `✓ Worklogs are rounded ${mode} to ${config.roundingMinutes} minutes`
+      )
+    );
+  } catch (error: any) {
+    console.error(chalk.red(`✗ Error: ${error.message}`));
+  }
+}
+
+/**
+ * Set minimum worklog duration command
+ */
+export async function setMinimumDurationCommand(
+  minutes: string,
+  options: { policy?: string } = {}
+): Promise<void> {
+  try {
+    const minimumDurationMinutes = Number(minutes);
+
+    if (
+      !Number.isInteger(minimumDurationMinutes) ||
+      minimumDurationMinutes < 0
+    ) {
+      throw new Error("Minimum duration must be a whole number of minutes");
+    }
+
+    if (options.policy && !["drop", "merge"].includes(options.policy)) {
+      throw new Error("Policy must be either drop or merge");
+    }
+
+    await updateConfig({
+      minimumDurationMinutes,
+      ...(options.policy
+        ? {
+            shortEntryPolicy: options.policy as ConfigType["shortEntryPolicy"],
+          }
+        : {}),
+    });
+
+    const config = await getConfig();
+    console.log(
+      chalk.green(
+        minimumDurationMinutes === 0
+          ? "✓ Minimum duration disabled"
+          : `✓ Entries shorter than ${minimumDurationMinutes} minutes are ${
+              config.shortEntryPolicy === "merge"
+                ? "merged into a neighbour"
+                : "dropped"
+            }`
+      )
+    );
+  } catch (error: any) {
+    console.error(chalk.red(`✗ Error: ${error.message}`));
+  }
+}
+
+/**
+ * Set time zone command
+ */
+export async function setTimeZoneCommand(timeZone: string): Promise<void> {
+  try {
+    if (timeZone === "system") {
+      await updateConfig({ timeZone: "" });
+      console.log(
+        chalk.green(`✓ Using the system time zone (${resolveTimeZone()})`)
+      );
+      return;
+    }
+
+    if (!isValidTimeZone(timeZone)) {
+      throw new Error(
+        `Unknown time zone "${timeZone}". Use an IANA name such as Europe/Berlin.`
+      );
+    }
+
+    await updateConfig({ timeZone });
+    console.log(chalk.green(`✓ Time zone set to ${timeZone}`));
+  } catch (error: any) {
+    console.error(chalk.red(`✗ Error: ${error.message}`));
+  }
+}
+
+/**
+ * Parse a number of minutes given on the command line
+ */
+function parseMinutes(value: string, name: string): number {
+  const minutes = Number(value);
+
+  if (!Number.isInteger(minutes) || minutes < 0) {
+    throw new Error(`${name} must be a whole number of minutes`);
+  }
+
+  return minutes;
+}
+
+/**
+ * Set reconstruction heuristics command
+ */
+export async function setReconstructionCommand(options: {
+  leadTime?: string;
+  maxGap?: string;
+}): Promise<void> {
+  try {
+    if (options.leadTime === undefined && options.maxGap === undefined) {
+      throw new Error("Nothing to set. Use --lead-time or --max-gap.");
+    }
+
+    const maxGap =
+      options.maxGap !== undefined
+        ? parseMinutes(options.maxGap, "Maximum gap")
+        : undefined;
+    if (maxGap === 0) {
+      throw new Error("Maximum gap must be at least one minute");
+    }
+
+    await updateConfig({
+      ...(options.leadTime !== undefined
+        ? {
+            reconstructionLeadMinutes: parseMinutes(
+              options.leadTime,
+              "Lead time"
+            ),
+          }
+        : {}),
+      ...(maxGap !== undefined ? { reconstructionGapMinutes: maxGap } : {}),
+    });
+
+    const config = await getConfig();
+    console.log(
+      chalk.green(
+        `✓ Reconstruction assumes ${config.reconstructionLeadMinutes} minutes before the first commit and splits on gaps over ${config.reconstructionGapMinutes} minutes`
+      )
+    );
+  } catch (error: any) {
+    console.error(chalk.red(`✗ Error: ${error.message}`));
+  }
+}
+
+// Automatic sync modes accepted on the command line
+const AUTO_SYNC_MODES: Record<string, ConfigType["autoSyncMode"]> = {
+  off: "off",
+  daily: "daily",
+  "after-session": "afterSession",
+};
+
+/**
+ * Set automatic sync command
+ */
+export async function setAutoSyncCommand(
+  mode: string,
+  options: { at?: string; delay?: string }
+): Promise<void> {
+  try {
+    const autoSyncMode = AUTO_SYNC_MODES[mode];
+    if (!autoSyncMode) {
+      throw new Error(
+        `Automatic sync mode must be one of: ${Object.keys(AUTO_SYNC_MODES).join(", ")}`
+      );
+    }
+
+    if (options.at !== undefined) {
+      // Validates the time
+      parseLocalDateTime("2000-01-01", options.at);
+    }
+
+    await updateConfig({
+      autoSyncMode,
+      ...(options.at !== undefined
+        ? { autoSyncTime: options.at.padStart(5, "0") }
+        : {}),
+      ...(options.delay !== undefined
+        ? { autoSyncDelayMinutes: parseMinutes(options.delay, "Delay") }
+        : {}),
+    });
+
+    const config = await getConfig();
+    console.log(
+      chalk.green(
+        autoSyncMode === "off"
+          ? "✓ Automatic sync disabled"
+          : `✓ The daemon syncs finished entries ${describeAutoSyncSchedule(
+              getAutoSyncSchedule(config)
+            )}`
+      )
+    );
+  } catch (error: any) {
+    console.error(chalk.red(`✗ Error: ${error.message}`));
+  }
+}
+
+/**
+ * Set consolidation gap command
+ */
+export async function setConsolidationGapCommand(
+  minutes: string
+): Promise<void> {
+  try {
+    const consolidationGapMinutes = Number(minutes);
+
+    if (
+      !Number.isInteger(consolidationGapMinutes) ||
+      consolidationGapMinutes < 0
+    ) {
+      throw new Error("Consolidation gap must be a whole number of minutes");
+    }
+
+    await updateConfig({ consolidationGapMinutes });
+    console.log(
+      chalk.green(
+        consolidationGapMinutes === 0
+          ? "✓ Only back-to-back entries are consolidated"
+          : `✓ Entries up to ${consolidationGapMinutes} minutes apart are consolidated`
+      )
+    );
+  } catch (error: any) {
+    console.error(chalk.red(`✗ Error: ${error.message}`));
+  }
+}
+
+/**
+ * Set idle timeout command
+ */
+export async function setIdleTimeoutCommand(minutes: string): Promise<void> {
+  try {
+    const idleTimeoutMinutes = Number(minutes);
+
+    if (!Number.isInteger(idleTimeoutMinutes) || idleTimeoutMinutes < 0) {
+      throw new Error("Idle timeout must be a whole number of minutes");
+    }
+
+    await updateConfig({ idleTimeoutMinutes });
+
+    if (idleTimeoutMinutes === 0) {
+      console.log(chalk.green("✓ Idle detection disabled"));
+    } else {
+      console.log(
+        chalk.green(`✓ Idle timeout set to ${idleTimeoutMinutes} minutes`)
+      );
+    }
+  } catch (error: any) {
+    console.error(chalk.red(`✗ Error: ${error.message}`));
+  }
+}
+
+/**
+ * Show config command
+ */
+export async function showConfigCommand(): Promise<void> {
+  try {
+    const effective = await getEffectiveConfig(process.cwd());
+    const { config, sources } = effective;
+
+    console.log(chalk.blue("Current configuration:"));
+    console.log(`  Global config: ${chalk.cyan(effective.globalConfigPath)}`);
+    console.log(
+      `  Project config: ${
+        effective.projectConfigPath
+          ? chalk.cyan(effective.projectConfigPath)
+          : chalk.gray("None")
+      }`
+    );
+
+    console.log(chalk.blue("\nCredentials:"));
+    console.log(`  Tempo Base URL: ${chalk.cyan(config.tempoBaseUrl)}`);
+    console.log(
+      `  API Key: ${
+        config.apiKey
+          ? chalk.cyan(`${config.apiKey.substring(0, 4)}...`)
+          : chalk.yellow("Not set")
+      }`
+    );
+    console.log(
+      `  Jira Account ID: ${
+        config.jiraAccountId
+          ? chalk.cyan(config.jiraAccountId)
+          : chalk.yellow("Not set")
+      }`
+    );
+    console.log(
+      `  Jira Base URL: ${
+        config.jiraBaseUrl
+          ? chalk.cyan(config.jiraBaseUrl)
+          : chalk.yellow("Not set")
+      }`
+    );
+    console.log(
+      `  Jira Email: ${
+        config.jiraEmail
+          ? chalk.cyan(config.jiraEmail)
+          : chalk.yellow("Not set")
+      }`
+    );
+    console.log(
+      `  Jira API Token: ${
+        config.jiraApiToken
+          ? chalk.cyan(`${config.jiraApiToken.substring(0, 4)}...`)
+          : chalk.yellow("Not set")
+      }`
+    );
+
+    // Settings that can be overridden per repository, with their origin
+    const settings: [string, ProjectConfigKey, string | undefined][] = [
+      [
+        "Idle Timeout",
+        "idleTimeoutMinutes",
+        config.idleTimeoutMinutes > 0
+          ? `${config.idleTimeoutMinutes} minutes`
+          : undefined,
+      ],
+      ["Branch Issue Pattern", "branchIssuePattern", config.branchIssuePattern],
+      ["Default Issue", "defaultIssue", config.defaultIssue],
+      [
+        "Ignored Branches",
+        "ignoredBranches",
+        config.ignoredBranches.length > 0
+          ? config.ignoredBranches.join(", ")
+          : undefined,
+      ],
+      [
+        "Branch Rules",
+        "branchRules",
+        config.branchRules.length > 0
+          ? `${config.branchRules.length} rules`
+          : undefined,
+      ],
+      [
+        "Description Template",
+        "descriptionTemplate",
+        config.descriptionTemplate ?? DEFAULT_DESCRIPTION_TEMPLATE,
+      ],
+    ];
+
+    console.log(chalk.blue("\nWorklogs:"));
+    console.log(
+      `  Time Zone: ${
+        config.timeZone
+          ? chalk.cyan(config.timeZone)
+          : `${chalk.cyan(resolveTimeZone())} ${chalk.gray("(system)")}`
+      }`
+    );
+    console.log(
+      `  Rounding: ${
+        config.roundingMode === "none"
+          ? chalk.yellow("Disabled")
+          : chalk.cyan(
+              `${config.roundingMode} to ${config.roundingMinutes} minutes`
+            )
+      }`
+    );
+    console.log(
+      `  Minimum Duration: ${
+        config.minimumDurationMinutes > 0
+          ? chalk.cyan(
+              `${config.minimumDurationMinutes} minutes (${config.shortEntryPolicy})`
+            )
+          : chalk.yellow("Disabled")
+      }`
+    );
+    console.log(
+      `  Reconstruction: ${chalk.cyan(
+        `${config.reconstructionLeadMinutes} minutes lead time, ${config.reconstructionGapMinutes} minutes maximum gap`
+      )}`
+    );
+    console.log(
+      `  Consolidation Gap: ${chalk.cyan(
+        `${config.consolidationGapMinutes} minutes`
+      )}`
+    );
+    console.log(
+      `  Automatic Sync: ${
+        config.autoSyncMode === "off"
+          ? chalk.yellow("Disabled")
+          : chalk.cyan(describeAutoSyncSchedule(getAutoSyncSchedule(config)))
+      }`
+    );
+
+    console.log(chalk.blue("\nSettings:"));
+    for (const [label, key, value] of settings) {
+      console.log(
+        `  ${label}: ${
+          value ? chalk.cyan(value) : chalk.yellow("Not set")
+        } ${chalk.gray(`(${sources[key]})`)}`
+      );
+    }
+    console.log(
+      `  Ignored Repositories: ${
+        config.ignoredRepositories.length > 0
+          ? chalk.cyan(config.ignoredRepositories.join(", "))
+          : chalk.yellow("Not set")
+      }`
+    );
+    console.log(
+      `  Ignored Paths: ${
+        config.ignoredPaths.length > 0
+          ? chalk.cyan(config.ignoredPaths.join(", "))
+          : chalk.yellow("Not set")
+      }`
+    );
+  } catch (error: any) {
+    console.error(chalk.red(`✗ Error: ${error.message}`));
+  }
+}
+
+// Ignore lists of the global configuration, by the kind of pattern they hold
+const IGNORE_LISTS = {
+  repository: "ignoredRepositories",
+  path: "ignoredPaths",
+  branch: "ignoredBranches",
+} as const;
+
+export type IgnoreKind = keyof typeof IGNORE_LISTS;
+
+/**
+ * Add a pattern to one of the global ignore lists
+ */
+export async function addIgnoreCommand(
+  kind: IgnoreKind,
+  pattern: string
+): Promise<void> {
+  try {
+    const key = IGNORE_LISTS[kind];
+    const config = await getConfig();
+
+    if (config[key].includes(pattern)) {
+      console.log(chalk.yellow(`${pattern} is already ignored`));
+      return;
+    }
+
+    await updateConfig({ [key]: [...config[key], pattern] });
+    console.log(chalk.green(`✓ Ignoring ${kind} ${pattern}`));
+  } catch (error: any) {
+    console.error(chalk.red(`✗ Error: ${error.message}`));
+  }
+}
+
+/**
+ * Remove a pattern from the global ignore lists
+ */
+export async function removeIgnoreCommand(pattern: string): Promise<void> {
+  try {
+    const config = await getConfig();
+    const keys = Object.values(IGNORE_LISTS).filter((key) =>
+      config[key].includes(pattern)
+    );
+
+    if (keys.length === 0) {
+      throw new Error(`${pattern} is not in any ignore list`);
+    }
+
+    for (const key of keys) {
+      await updateConfig({
+        [key]: config[key].filter((ignored) => ignored !== pattern),
+      });
+    }
+
+    console.log(chalk.green(`✓ No longer ignoring ${pattern}`));
+  } catch (error: any) {
+    console.error(chalk.red(`✗ Error: ${error.message}`));
+  }
+}
+
+/**
+ * List the ignore lists in effect for the current directory
+ */
+export async function listIgnoreCommand(): Promise<void> {
+  try {
+    const { config, sources } = await getEffectiveConfig(process.cwd());
+
+    for (const [kind, key] of Object.entries(IGNORE_LISTS)) {
+      const patterns = config[key];
+      const source = key === "ignoredBranches" ? ` (${sources[key]})` : "";
+
+      console.log(chalk.blue(`Ignored ${kind} patterns${source}:`));
+      if (patterns.length === 0) {
+        console.log(chalk.gray("  None"));
+      }
+      for (const pattern of patterns) {
+        console.log(`  ${chalk.cyan(pattern)}`);
+      }
+    }
+  } catch (error: any) {
+    console.error(chalk.red(`✗ Error: ${error.message}`));
+  }
+}
+
+/**
+ * Test which branch rule matches a branch
+ */
+export async function testRulesCommand(
+  branch: string,
+  options: { repository?: string } = {}
+): Promise<void> {
+  try {
+    const gitRoot = findGitRoot(process.cwd());
+    const { config, sources } = await getEffectiveConfig(process.cwd());
+    const repository =
+      options.repository ?? (gitRoot ? await getRepositoryName(gitRoot) : "");
+
+    console.log(`  Branch: ${chalk.cyan(branch)}`);
+    console.log(
+      `  Repository: ${repository ? chalk.cyan(repository) : chalk.gray("N/A")}`
+    );
+
+    if (isRepositoryIgnored(repository, config.ignoredRepositories)) {
+      console.log(
+        chalk.yellow("\nRepository is ignored by ignoredRepositories (global)")
+      );
+      return;
+    }
+
+    if (isBranchIgnored(branch, config.ignoredBranches)) {
+      console.log(
+        chalk.yellow(
+          `\nBranch is ignored by ignoredBranches (${sources.ignoredBranches})`
+        )
+      );
+      return;
+    }
+
+    const match = findBranchRule(config.branchRules, { branch, repository });
+
+    if (match) {
+      console.log(
+        chalk.green(
+          `\n✓ Matches rule #${match.index + 1} (${sources.branchRules}):`
+        ),
+        chalk.cyan(describeBranchRule(match.rule))
+      );
+      return;
+    }
+
+    console.log(chalk.yellow("\nNo branch rule matches."));
+
+    const issueKey = config.branchIssuePattern
+      ? inferIssueKeyFromBranch(branch, config.branchIssuePattern)
+      : undefined;
+
+    if (issueKey) {
+      console.log(`  Issue from branch name: ${chalk.cyan(issueKey)}`);
+    } else if (config.defaultIssue) {
+      console.log(`  Default issue: ${chalk.cyan(config.defaultIssue)}`);
+    } else {
+      console.log(`  Issue: ${chalk.gray("None")}`);
+    }
+  } catch (error: any) {
+    console.error(chalk.red(`✗ Error: ${error.message}`));
+  }
+}
+
+/**
+ * Display options for worklog listing
+ */
+export interface WorklogDisplayOptions {
+  limit?: number;
+  date?: string;
+  branch?: string;
+  repository?: string;
+  issueId?: string;
+  all?: boolean;
+  format?: "table" | "json";
+}
+
+/**
+ * Display worklogs in a table format
+ *
+ * With all, the cached Tempo worklogs that have no local entry are listed
+ * too, marked with their source. The table groups the entries by
+ * repository, newest first within each repository.
+ */
+export async function displayWorklogs(
+  options: WorklogDisplayOptions = {}
+): Promise<void> {
+  try {
+    const activities = await getActivityLog();
+    const { timeZone } = await getConfig();
+
+    // Worklogs logged in Tempo by other tools have no branch or repository
+    const remoteWorklogs =
+      options.all && !options.branch && !options.repository
+        ? compareWorklogs(
+            activities,
+            await filterRemoteWorklogs(await getRemoteWorklogs(), {
+              date: options.date,
+              issue: options.issueId,
+            }),
+            timeZone
+          ).missingLocally
+        : [];
+
+    if (activities.length === 0 && remoteWorklogs.length === 0) {
+      console.log(chalk.yellow("No activity logs found."));
+      return;
+    }
+
+    // Apply filters
+    const filteredActivities = await filterActivities(activities, {
+      date: options.date,
+      branch: options.branch,
+      repository: options.repository,
+      issue: options.issueId,
+      includeSynced: options.all,
+      timeZone,
+    });
+
+    // Sort by start time (newest first)
+    let entries: (
+      | { source: "local"; activity: ActivityLogEntry }
+      | { source: "tempo"; worklog: RemoteWorklog }
+    )[] = [
+      ...filteredActivities.map((activity) => ({
+        source: "local" as const,
+        activity,
+      })),
+      ...remoteWorklogs.map((worklog) => ({
+        source: "tempo" as const,
+        worklog,
+      })),
+    ];
+    const startOf = (entry: (typeof entries)[0]) =>
+      new Date(
+        entry.source === "local"
+          ? entry.activity.startTime
+          : entry.worklog.startDateTimeUtc
+      ).getTime();
+    entries.sort((a, b) => startOf(b) - startOf(a));
+
+    // Apply limit
+    if (options.limit && options.limit > 0) {
+      entries = entries.slice(0, options.limit);
+    }
+
+    if (entries.length === 0) {
+      console.log(chalk.yellow("No activity logs match the filters."));
+      return;
+    }
+
+    // Display in requested format
+    if (options.format === "json") {
+      console.log(
+        JSON.stringify(
+          entries.map((entry) =>
+            entry.source === "local"
+              ? { source: entry.source, ...entry.activity }
+              : { source: entry.source, ...entry.worklog }
+          ),
+          null,
+          2
+        )
+      );
+      return;
+    }
+
+    // Display in table format
+    console.log(chalk.blue("Activity logs:"));
+
+    // Durations as they will be booked in Tempo, with the entries they are
+    // consolidated with
+    const booked = getBookedDurations(
+      activities,
+      getWorklogRules(await getConfig())
+    );
+
+    // Group by repository; Tempo worklogs have none and come last
+    const repositories = new Map(
+      entries.map((entry) => [
+        entry,
+        entry.source === "local"
+          ? getActivityRepository(entry.activity)
+          : undefined,
+      ])
+    );
+    entries.sort((a, b) => {
+      const [first, second] = [repositories.get(a), repositories.get(b)];
+      return first && second
+        ? first.localeCompare(second)
+        : Number(!first) - Number(!second);
+    });
+
+    // Create a new table instance
+    const table = new Table({
+      head: [
+        chalk.white.bold("ID"),
+        chalk.white.bold("Source"),
+        chalk.white.bold("Repository"),
+        chalk.white.bold("Branch"),
+        chalk.white.bold("Duration"),
+        chalk.white.bold("Booked"),
+        chalk.white.bold("Issue"),
+        chalk.white.bold("Description"),
+        chalk.white.bold("Synced"),
+        chalk.white.bold("Date"),
+      ],
+      colWidths: [10, 8, 16, 20, 12, 10, 12, 24, 8, 20],
+      wordWrap: true, // Enable wrapping,
+      wrapOnWordBoundary: true,
+      style: {
+        head: [], // No additional styling for headers
+        border: [], // No additional styling for borders
+      },
+      // Keep horizontal lines between rows for better readability
+    });
+
+    // Add rows to the table
+    for (const entry of entries) {
+      if (entry.source === "tempo") {
+        const { worklog } = entry;
+        const duration = formatDurationMs(worklog.timeSpentSeconds * 1000);
+
+        table.push([
+          chalk.gray(worklog.tempoWorklogId),
+          chalk.magenta("Tempo"),
+          chalk.gray("N/A"),
+          chalk.gray("N/A"),
+          chalk.cyan(duration),
+          chalk.cyan(duration),
+          chalk.cyan(formatIssue(worklog)),
+          worklog.description
+            ? chalk.cyan(worklog.description)
+            : chalk.gray("N/A"),
+          chalk.green("Yes"),
+          chalk.cyan(formatDate(worklog.startDateTimeUtc, timeZone)),
+        ]);
+        continue;
+      }
+
+      const { activity } = entry;
+      const startTime = new Date(activity.startTime);
+      const repository = repositories.get(entry);
+
+      table.push([
+        chalk.gray(shortActivityId(activity.id)),
+        "Local",
+        repository ? chalk.cyan(path.basename(repository)) : chalk.gray("N/A"),
+        activity.manual ? chalk.gray("(manual)") : chalk.cyan(activity.branch),
+        chalk.cyan(formatDurationMs(getActivityDurationMs(activity))),
+        formatBookedDuration(booked.get(activity.id)),
+        formatIssue(activity)
+          ? chalk.cyan(formatIssue(activity))
+          : chalk.gray("N/A"),
+        activity.description
+          ? chalk.cyan(activity.description)
+          : chalk.gray("N/A"),
+        activity.needsUpdate
+          ? chalk.yellow("Update")
+          : activity.synced
+            ? chalk.green("Yes")
+            : activity.dropped
+              ? chalk.gray("Dropped")
+              : activity.syncedDates?.length ||
+                  Object.keys(activity.tempoWorklogIds ?? {}).length
+                ? chalk.yellow("Partly")
+                : chalk.yellow("No"),
+        chalk.cyan(formatDate(startTime.toISOString(), timeZone)),
+      ]);
+    }
+
+    // Print the table
+    console.log(table.toString());
+    console.log(
+      chalk.blue(
+        remoteWorklogs.length > 0
+          ? `Total: ${entries.length} entries, ${
+              entries.filter((entry) => entry.source === "tempo").length
+            } logged in Tempo only`
+          : `Total: ${entries.length} activities`
+      )
+    );
+  } catch (error: any) {
+    console.error(chalk.red(`✗ Error: ${error.message}`));
+  }
+}
+
+/**
+ * Format the duration an activity is booked with in Tempo
+ */
+function formatBookedDuration(seconds: number | null | undefined): string {
+  if (seconds === undefined) {
+    return chalk.gray("N/A");
+  }
+
+  if (seconds === null) {
+    return chalk.gray("dropped");
+  }
+
+  return chalk.cyan(formatDurationMs(seconds * 1000));
+}
+
+/**
+ * Delete log entries command
+ */
+export async function deleteLogsCommand(
+  id: string | undefined,
+  options: {
+    date?: string;
+    branch?: string;
+    issueId?: string;
+    force?: boolean;
+  }
+): Promise<void> {
+  try {
+    const { timeZone } = await getConfig();
+    let activities: ActivityLogEntry[];
+
+    if (id) {
+      activities = [await getActivityById(id)];
+    } else if (options.date || options.branch || options.issueId) {
+      activities = await filterActivities(await getActivityLog(), {
+        date: options.date,
+        branch: options.branch,
+        issue: options.issueId,
+        includeSynced: true,
+        timeZone,
+      });
+    } else {
+      throw new Error(
+        "Specify an entry ID or at least one of --date, --branch or --issue-id. Use 'tempo logs clear' to delete everything."
+      );
+    }
+
+    if (activities.length === 0) {
+      console.log(chalk.yellow("No activity logs match the filters."));
+      return;
+    }
+
+    const unlinked = activities.filter(hasUnlinkedSyncedWork);
+    if (unlinked.length > 0 && !options.force) {
+      console.log(
+        chalk.yellow(
+          "These entries were synced without a Tempo worklog ID, so their worklogs stay in Tempo:"
+        )
+      );
+      unlinked.forEach((activity) =>
+        displayActivitySummary(activity, timeZone)
+      );
+      throw new Error("Refusing to delete synced entries without --force");
+    }
+
+    console.log(chalk.blue("The following entries will be deleted:"));
+    activities.forEach((activity) =>
+      displayActivitySummary(activity, timeZone)
+    );
+
+    const { confirm } = await inquirer.prompt([
+      {
+        type: "confirm",
+        name: "confirm",
+        message: `Delete ${activities.length} ${
+          activities.length === 1 ? "entry" : "entries"
+        }? This cannot be undone.`,
+        default: false,
+      },
+    ]);
+
+    if (!confirm) {
+      console.log(chalk.yellow("Operation aborted."));
+      return;
+    }
+
+    const deletions = await deleteActivities(
+      activities.map((activity) => activity.id),
+      { force: options.force }
+    );
+    console.log(
+      chalk.green(
+        `✓ Deleted ${activities.length} ${
+          activities.length === 1 ? "entry" : "entries"
+        }`
+      )
+    );
+
+    if (deletions > 0) {
+      console.log(
+        chalk.gray(
+          `  ${deletions} Tempo worklogs are queued for deletion, see 'tempo sync status'`
+        )
+      );
+    }
+  } catch (error: any) {
+    console.error(chalk.red(`✗ Error: ${error.message}`));
+  }
+}
+
+/**
+ * Clear logs command
+ */
+export async function clearLogsCommand(): Promise<void> {
+  try {
+    const { confirm } = await inquirer.prompt([
+      {
+        type: "confirm",
+        name: "confirm",
+        message:
+          "Are you sure you want to clear all activity logs? This cannot be undone.",
+        default: false,
+      },
+    ]);
+
+    if (!confirm) {
+      console.log(chalk.yellow("Operation aborted."));
+      return;
+    }
+
+    await clearActivityLog();
+    console.log(chalk.green("✓ All activity logs cleared"));
+  } catch (error: any) {
+    console.error(chalk.red(`✗ Error: ${error.message}`));
+  }
+}
+
+/**
+ * Add a manual log entry command
+ */
+export async function addLogCommand(options: {
+  issue: string;
+  from: string;
+  to: string;
+  date?: string;
+  description?: string;
+}): Promise<void> {
+  try {
+    const { timeZone } = await getConfig();
+    const date = options.date ?? formatLocalDate(new Date(), timeZone);
+    const startTime = parseLocalDateTime(date, options.from, timeZone);
+    const endTime = parseLocalDateTime(date, options.to, timeZone);
+
+    if (endTime <= startTime) {
+      throw new Error(
+        `End time ${options.to} must be after start time ${options.from}`
+      );
+    }
+
+    const { entry, overlaps } = await addManualActivity({
+      ...parseIssueReference(options.issue),
+      startTime,
+      endTime,
+      description: options.description,
+      directory: findGitRoot(process.cwd()) ?? undefined,
+    });
+
+    console.log(chalk.green("✓ Added activity log entry"));
+    console.log(`  Issue: ${chalk.cyan(formatIssue(entry))}`);
+    console.log(
+      `  Time: ${chalk.cyan(`${date} ${options.from}–${options.to}`)} (${chalk.cyan(
+        formatDurationMs(getActivityDurationMs(entry))
+      )})`
+    );
+
+    if (entry.description) {
+      console.log(`  Description: ${chalk.cyan(entry.description)}`);
+    }
+
+    if (overlaps.length > 0) {
+      console.log(
+        chalk.yellow(
+          `\n⚠ This entry overlaps ${overlaps.length} existing ${
+            overlaps.length === 1 ? "entry" : "entries"
+          }:`
+        )
+      );
+      overlaps.forEach((activity) => {
+        console.log(
+          `  ${formatDate(activity.startTime, timeZone)} – ${
+            activity.endTime ? formatDate(activity.endTime, timeZone) : "now"
+          } ${chalk.cyan(activity.branch || formatIssue(activity) || "")}`
+        );
+      });
+    }
+
+    console.log(chalk.blue("  Use 'tempo sync' to sync with Tempo."));
+  } catch (error: any) {
+    console.error(chalk.red(`✗ Error: ${error.message}`));
+  }
+}
+
+/**
+ * Print a short summary of an activity log entry
+ */
+function displayActivitySummary(
+  activity: ActivityLogEntry,
+  timeZone?: string
+): void {
+  console.log(
+    `  ${chalk.gray(shortActivityId(activity.id))} ${formatDate(activity.startTime, timeZone)} – ${
+      activity.endTime ? formatDate(activity.endTime, timeZone) : "now"
+    } ${chalk.cyan(formatDurationMs(getActivityDurationMs(activity)))} ${
+      formatIssue(activity) ? chalk.cyan(formatIssue(activity)) : ""
+    } ${activity.description ? chalk.cyan(activity.description) : ""}`
+  );
 
-    // Apply limit
-    if (options.limit && options.limit > 0) {
-      filteredActivities = filteredActivities.slice(0, options.limit);
+  if (activity.needsUpdate) {
+    console.log(
+      chalk.yellow(
+        hasUnlinkedSyncedWork(activity)
+          ? "  ⚠ Entry was synced without a Tempo worklog ID, update its worklog in Tempo by hand."
+          : "  ⚠ Entry was already synced, its Tempo worklog is updated on the next sync."
+      )
+    );
+  }
+}
+
+/**
+ * Edit a log entry command
+ */
+export async function editLogCommand(
+  id: string,
+  options: {
+    date?: string;
+    from?: string;
+    to?: string;
+    issue?: string;
+    description?: string;
+  }
+): Promise<void> {
+  try {
+    if (
+      !options.from &&
+      !options.to &&
+      !options.issue &&
+      options.description === undefined
+    ) {
+      throw new Error(
+        "Nothing to edit. Use --from, --to, --issue or --description."
+      );
     }
 
-    if (filteredActivities.length === 0) {
-      console.log(chalk.yellow("No activity logs match the filters."));
-      return;
+    const activity = await getActivityById(id);
+    const { timeZone } = await getConfig();
+    const date =
+      options.date ?? formatLocalDate(new Date(activity.startTime), timeZone);
+    const startTime = options.from
+      ? parseLocalDateTime(date, options.from, timeZone)
+      : undefined;
+
+    // An end before the start is on the next day
+    const updated = await editActivity(activity.id, {
+      startTime,
+      endTime: options.to
+        ? parseLocalEndTime(
+            date,
+            options.to,
+            startTime ?? new Date(activity.startTime),
+            timeZone
+          )
+        : undefined,
+      issue: options.issue ? parseIssueReference(options.issue) : undefined,
+      description: options.description,
+    });
+
+    console.log(chalk.green("✓ Updated activity log entry"));
+    displayActivitySummary(updated, timeZone);
+  } catch (error: any) {
+    console.error(chalk.red(`✗ Error: ${error.message}`));
+  }
+}
+
+/**
+ * Split a log entry command
+ */
+export async function splitLogCommand(
+  id: string,
+  options: { at: string; date?: string }
+): Promise<void> {
+  try {
+    const activity = await getActivityById(id);
+    const { timeZone } = await getConfig();
+    const date =
+      options.date ?? formatLocalDate(new Date(activity.startTime), timeZone);
+
+    const entries = await splitActivity(
+      activity.id,
+      parseLocalDateTime(date, options.at, timeZone)
+    );
+
+    console.log(chalk.green(`✓ Split activity log entry at ${options.at}`));
+    entries.forEach((entry) => displayActivitySummary(entry, timeZone));
+  } catch (error: any) {
+    console.error(chalk.red(`✗ Error: ${error.message}`));
+  }
+}
+
+/**
+ * Merge log entries command
+ */
+export async function mergeLogsCommand(
+  firstId: string,
+  secondId: string
+): Promise<void> {
+  try {
+    const merged = await mergeActivities(
+      (await getActivityById(firstId)).id,
+      (await getActivityById(secondId)).id
+    );
+
+    const { timeZone } = await getConfig();
+
+    console.log(chalk.green("✓ Merged activity log entries"));
+    displayActivitySummary(merged, timeZone);
+  } catch (error: any) {
+    console.error(chalk.red(`✗ Error: ${error.message}`));
+  }
+}
+
+/**
+ * List logs command
+ */
+export async function listLogsCommand(
+  options: WorklogDisplayOptions = {}
+): Promise<void> {
+  try {
+    await displayWorklogs(options);
+  } catch (error: any) {
+    console.error(chalk.red(`✗ Error: ${error.message}`));
+  }
+}
+
+/**
+ * Get the range of days of a remote command, today by default
+ */
+function getRemoteDateRange(
+  options: { from?: string; to?: string },
+  timeZone?: string
+): { from: string; to: string } {
+  const to = options.to ?? formatLocalDate(new Date(), timeZone);
+  return { from: options.from ?? to, to };
+}
+
+/**
+ * Pull your worklogs from Tempo into the local cache
+ */
+export async function remotePullCommand(options: {
+  from?: string;
+  to?: string;
+}): Promise<void> {
+  try {
+    const config = await getConfig();
+
+    if (!config.apiKey) {
+      throw new Error("API key not configured");
     }
 
-    // Display in requested format
-    if (options.format === "json") {
-      console.log(JSON.stringify(filteredActivities, null, 2));
+    if (!config.jiraAccountId) {
+      throw new Error("Jira account ID not configured");
+    }
+
+    const { from, to } = getRemoteDateRange(options, config.timeZone);
+    const worklogs = await pullRemoteWorklogs(
+      from,
+      to,
+      config.jiraAccountId,
+      config.apiKey,
+      config.tempoBaseUrl
+    );
+    const totalSeconds = worklogs.reduce(
+      (total, worklog) => total + worklog.timeSpentSeconds,
+      0
+    );
+
+    console.log(
+      chalk.green(
+        `✓ Pulled ${worklogs.length} worklogs (${formatDurationMs(
+          totalSeconds * 1000
+        )}) from Tempo for ${from === to ? from : `${from} to ${to}`}`
+      )
+    );
+    console.log(
+      chalk.gray(
+        "  Run 'tempo logs list --all' to see them next to your local entries."
+      )
+    );
+  } catch (error: any) {
+    console.error(chalk.red(`✗ Error: ${error.message}`));
+  }
+}
+
+/**
+ * Show the differences between the activity log and your worklogs in Tempo
+ *
+ * Pulls the worklogs of the range first, unless cached is set.
+ */
+export async function diffCommand(options: {
+  from?: string;
+  to?: string;
+  cached?: boolean;
+}): Promise<void> {
+  try {
+    const config = await getConfig();
+    const { timeZone } = config;
+    const { from, to } = getRemoteDateRange(options, timeZone);
+
+    if (!options.cached) {
+      if (!config.apiKey || !config.jiraAccountId) {
+        throw new Error(
+          "Tempo API key or Jira account ID not configured. Use --cached to compare with the worklogs pulled before."
+        );
+      }
+
+      await pullRemoteWorklogs(
+        from,
+        to,
+        config.jiraAccountId,
+        config.apiKey,
+        config.tempoBaseUrl
+      );
+    }
+
+    const diff = await diffWorklogs(from, to, timeZone);
+
+    if (diff.missingRemotely.length > 0) {
+      console.log(chalk.blue("Local entries missing in Tempo:"));
+
+      const table = new Table({
+        head: [
+          chalk.white.bold("ID"),
+          chalk.white.bold("Date"),
+          chalk.white.bold("Start"),
+          chalk.white.bold("Duration"),
+          chalk.white.bold("Issue"),
+          chalk.white.bold("Description"),
+          chalk.white.bold("Reason"),
+        ],
+        colWidths: [10, 12, 8, 10, 14, 32, 22],
+        wordWrap: true,
+      });
+
+      for (const { activity, date, reason } of diff.missingRemotely) {
+        table.push([
+          chalk.gray(shortActivityId(activity.id)),
+          date,
+          formatLocalTime(new Date(activity.startTime), timeZone),
+          formatDurationMs(getActivityDurationMs(activity)),
+          formatIssue(activity) ?? chalk.gray("N/A"),
+          activity.description ?? "",
+          reason === "deleted"
+            ? chalk.red("Deleted in Tempo")
+            : chalk.yellow("Not synced"),
+        ]);
+      }
+
+      console.log(table.toString());
+    }
+
+    if (diff.missingLocally.length > 0) {
+      console.log(chalk.blue("Tempo worklogs without a local entry:"));
+
+      const table = new Table({
+        head: [
+          chalk.white.bold("Worklog"),
+          chalk.white.bold("Date"),
+          chalk.white.bold("Start"),
+          chalk.white.bold("Duration"),
+          chalk.white.bold("Issue"),
+          chalk.white.bold("Description"),
+        ],
+        colWidths: [10, 12, 8, 10, 14, 54],
+        wordWrap: true,
+      });
+
+      for (const worklog of diff.missingLocally) {
+        table.push([
+          chalk.gray(worklog.tempoWorklogId),
+          worklog.startDate,
+          formatLocalTime(new Date(worklog.startDateTimeUtc), timeZone),
+          formatDurationMs(worklog.timeSpentSeconds * 1000),
+          formatIssue(worklog) ?? "",
+          worklog.description,
+        ]);
+      }
+
+      console.log(table.toString());
+    }
+
+    const period = from === to ? from : `${from} to ${to}`;
+    if (diff.missingRemotely.length === 0 && diff.missingLocally.length === 0) {
+      console.log(
+        chalk.green(
+          `✓ Local entries and Tempo worklogs match for ${period} (${diff.matched} entries)`
+        )
+      );
       return;
     }
 
-    // Display in table format
-    console.log(chalk.blue("Activity logs:"));
+    console.log(
+      chalk.blue(
+        `${diff.matched} entries match, ${diff.missingRemotely.length} are missing in Tempo and ${diff.missingLocally.length} Tempo worklogs have no local entry for ${period}`
+      )
+    );
+  } catch (error: any) {
+    console.error(chalk.red(`✗ Error: ${error.message}`));
+  }
+}
+
+/**
+ * Reconstruct a day from git history command
+ */
+export async function reconstructCommand(options: {
+  date: string;
+  repo?: string;
+  leadTime?: string;
+  maxGap?: string;
+}): Promise<void> {
+  try {
+    const directory = findGitRoot(path.resolve(options.repo ?? process.cwd()));
+    if (!directory) {
+      throw new Error(
+        `${options.repo ?? process.cwd()} is not in a git repository`
+      );
+    }
+
+    const config = await getConfig();
+    const heuristics = getReconstructionHeuristics(config);
+    if (options.leadTime !== undefined) {
+      heuristics.leadTimeMinutes = parseMinutes(options.leadTime, "Lead time");
+    }
+    if (options.maxGap !== undefined) {
+      heuristics.maxGapMinutes = parseMinutes(options.maxGap, "Maximum gap");
+    }
+
+    const { activities, ignored } = await reconstructActivities(
+      directory,
+      options.date,
+      heuristics,
+      config.timeZone
+    );
+
+    ignored.forEach(({ reason }) => console.log(chalk.gray(`  ${reason}`)));
+
+    if (activities.length === 0) {
+      console.log(
+        chalk.yellow(`No commits or branch switches found on ${options.date}.`)
+      );
+      return;
+    }
 
-    // Create a new table instance
     const table = new Table({
       head: [
+        chalk.white.bold("#"),
         chalk.white.bold("Branch"),
+        chalk.white.bold("Time"),
         chalk.white.bold("Duration"),
         chalk.white.bold("Issue"),
+        chalk.white.bold("Commits"),
         chalk.white.bold("Description"),
-        chalk.white.bold("Synced"),
-        chalk.white.bold("Date"),
       ],
-      colWidths: [45, 15, 10, 30, 10, 20],
-      wordWrap: true, // Enable wrapping,
-      wrapOnWordBoundary: true,
-      style: {
-        head: [], // No additional styling for headers
-        border: [], // No additional styling for borders
-      },
-      // Keep horizontal lines between rows for better readability
+      colWidths: [5, 30, 16, 10, 12, 9, 40],
+      wordWrap: true,
     });
 
-    // Add rows to the table
-    filteredActivities.forEach((activity) => {
-      const startTime = new Date(activity.startTime);
-      const endTime = activity.endTime
-        ? new Date(activity.endTime)
-        : new Date();
-
-      const durationMs = endTime.getTime() - startTime.getTime();
-      const durationMinutes = Math.round(durationMs / 60000);
-
+    activities.forEach((activity, index) => {
       table.push([
+        `${index + 1}`,
         chalk.cyan(activity.branch),
-        chalk.cyan(formatDuration(startTime.toISOString(), activity.endTime)),
-        activity.issueId ? chalk.cyan(activity.issueId) : chalk.gray("N/A"),
+        chalk.cyan(formatReconstructedTime(activity, config.timeZone)),
+        chalk.cyan(
+          formatDurationMs(
+            new Date(activity.endTime).getTime() -
+              new Date(activity.startTime).getTime()
+          )
+        ),
+        formatIssue(activity)
+          ? chalk.cyan(formatIssue(activity))
+          : chalk.yellow("None"),
+        `${activity.commits.length}`,
         activity.description
           ? chalk.cyan(activity.description)
           : chalk.gray("N/A"),
-        activity.synced ? chalk.green("Yes") : chalk.yellow("No"),
-        chalk.cyan(formatDate(startTime.toISOString())),
       ]);
     });
 
-    // Print the table
+    console.log(chalk.blue(`Proposed entries for ${options.date}:`));
     console.log(table.toString());
-    console.log(chalk.blue(`Total: ${filteredActivities.length} activities`));
+
+    const { selected } = await inquirer.prompt([
+      {
+        type: "checkbox",
+        name: "selected",
+        message: "Select the entries to add to the activity log",
+        choices: activities.map((activity, index) => ({
+          name: `#${index + 1} ${activity.branch} ${formatReconstructedTime(
+            activity,
+            config.timeZone
+          )}${
+            activity.overlaps.length > 0
+              ? chalk.yellow(
+                  ` (overlaps ${activity.overlaps.length} existing ${
+                    activity.overlaps.length === 1 ? "entry" : "entries"
+                  })`
+                )
+              : ""
+          }`,
+          value: activity,
+          checked: activity.overlaps.length === 0,
+        })),
+      },
+    ]);
+
+    if (selected.length === 0) {
+      console.log(chalk.yellow("Nothing added."));
+      return;
+    }
+
+    for (const activity of selected as ReconstructedActivity[]) {
+      const issue = formatIssue(activity)
+        ? { issueId: activity.issueId, issueKey: activity.issueKey }
+        : await promptReconstructedIssue(activity);
+
+      await addActivityLog({
+        branch: activity.branch,
+        directory: activity.directory,
+        repository: activity.repository,
+        startTime: activity.startTime,
+        endTime: activity.endTime,
+        issueId: issue.issueId ?? 0,
+        issueKey: issue.issueKey,
+        description: activity.description,
+      });
+    }
+
+    console.log(
+      chalk.green(`✓ Added ${selected.length} entries to the activity log`)
+    );
+    console.log(
+      chalk.blue(
+        "  Use 'tempo logs edit' to adjust them and 'tempo sync' to sync with Tempo."
+      )
+    );
   } catch (error: any) {
     console.error(chalk.red(`✗ Error: ${error.message}`));
   }
 }
 
 /**
- * Clear logs command
+ * Format the time range of a reconstructed entry
  */
-export async function clearLogsCommand(): Promise<void> {
-  try {
-    const { confirm } = await inquirer.prompt([
-      {
-        type: "confirm",
-        name: "confirm",
-        message:
-          "Are you sure you want to clear all activity logs? This cannot be undone.",
-        default: false,
+function formatReconstructedTime(
+  activity: ReconstructedActivity,
+  timeZone?: string
+): string {
+  return `${formatLocalTime(
+    new Date(activity.startTime),
+    timeZone
+  )}–${formatLocalTime(new Date(activity.endTime), timeZone)}`;
+}
+
+/**
+ * Ask for the issue of a reconstructed entry that has none
+ */
+async function promptReconstructedIssue(
+  activity: ReconstructedActivity
+): Promise<{ issueId?: number; issueKey?: string }> {
+  const { issue } = await inquirer.prompt([
+    {
+      type: "input",
+      name: "issue",
+      message: `Issue for ${activity.branch} (leave empty to add it without one):`,
+      validate: (input: string) => {
+        if (!input.trim()) {
+          return true;
+        }
+        try {
+          parseIssueReference(input);
+          return true;
+        } catch (error: any) {
+          return error.message;
+        }
       },
-    ]);
+    },
+  ]);
 
-    if (!confirm) {
-      console.log(chalk.yellow("Operation aborted."));
-      return;
-    }
+  if (!issue.trim()) {
+    return {};
+  }
 
-    await clearActivityLog();
-    console.log(chalk.green("✓ All activity logs cleared"));
+  const reference = parseIssueReference(issue);
+  try {
+    return await resolveIssueReference(reference);
+  } catch (error) {
+    // Unresolved keys are resolved again when syncing
+    return reference;
+  }
+}
+
+/**
+ * Install git hooks command
+ */
+export async function installHooksCommand(options: {
+  global?: boolean;
+  setHooksPath?: boolean;
+}): Promise<void> {
+  try {
+    const installation = await installGitHooks({
+      // Globally, the hooks of the current repository keep running too
+      directory: options.global
+        ? (findGitRoot(process.cwd()) ?? undefined)
+        : getRepositoryRoot(),
+      global: options.global,
+      setHooksPath: options.setHooksPath,
+    });
+
+    console.log(
+      chalk.green(`✓ Installed git hooks in ${installation.hooksDirectory}`)
+    );
+    displayHookChanges(installation);
+    console.log(
+      chalk.blue(
+        "  Branch switches are now picked up immediately while the daemon runs."
+      )
+    );
   } catch (error: any) {
     console.error(chalk.red(`✗ Error: ${error.message}`));
   }
 }
 
 /**
- * List logs command
+ * Uninstall git hooks command
  */
-export async function listLogsCommand(
-  options: WorklogDisplayOptions = {}
-): Promise<void> {
+export async function uninstallHooksCommand(options: {
+  global?: boolean;
+}): Promise<void> {
   try {
-    await displayWorklogs(options);
+    const installation = await uninstallGitHooks({
+      directory: options.global ? undefined : getRepositoryRoot(),
+      global: options.global,
+    });
+
+    console.log(
+      chalk.green(`✓ Removed git hooks from ${installation.hooksDirectory}`)
+    );
+    displayHookChanges(installation);
   } catch (error: any) {
     console.error(chalk.red(`✗ Error: ${error.message}`));
   }
 }
 
+/**
+ * Notify the daemon from a git hook command
+ *
+ * Runs inside git hooks, so it never prints anything or fails.
+ */
+export async function notifyHookCommand(event: string): Promise<void> {
+  try {
+    await notifyRepositoryChange(event);
+  } catch (error) {
+    // Git must not be bothered by a missing or busy daemon
+  }
+}
+
+/**
+ * Get the root of the git repository of the current directory
+ */
+function getRepositoryRoot(): string {
+  const gitRoot = findGitRoot(process.cwd());
+  if (!gitRoot) {
+    throw new Error(
+      "Not in a git repository. Use --global to install the hooks for all repositories."
+    );
+  }
+  return gitRoot;
+}
+
+/**
+ * Print what happened to each hook script
+ */
+function displayHookChanges(installation: HookInstallation): void {
+  for (const [hook, change] of Object.entries(installation.changes)) {
+    console.log(
+      `  ${hook}: ${
+        change === "unchanged" ? chalk.gray(change) : chalk.cyan(change)
+      }`
+    );
+  }
+}
+
 /**
  * Setup command
  */
@@ -693,17 +2627,30 @@ export async function statusDaemonWithErrorHandling(): Promise<void> {
       try {
         // Get daemon status
         const status = await getStatus();
+        const { timeZone } = await getConfig();
 
         // Display active tracking sessions if any
         if (status.activeSessions.length > 0) {
           console.log(chalk.blue("\nActive tracking sessions:"));
 
           for (const session of status.activeSessions) {
-            displaySession(session);
+            displaySession(session, timeZone);
           }
         } else {
           console.log(chalk.yellow("\nNo active tracking sessions."));
         }
+
+        const config = await getConfig();
+        console.log(
+          chalk.blue(
+            `\nAutomatic sync: ${describeAutoSyncSchedule(
+              getAutoSyncSchedule(config)
+            )}`
+          )
+        );
+        if (status.lastAutoSync) {
+          displayAutoSyncRun(status.lastAutoSync, timeZone);
+        }
       } catch (error: any) {
         console.log(chalk.yellow(`\nError getting daemon status: ${error}`));
       }
@@ -716,6 +2663,35 @@ export async function statusDaemonWithErrorHandling(): Promise<void> {
   }
 }
 
+/**
+ * Print the outcome of an automatic sync
+ */
+function displayAutoSyncRun(run: AutoSyncRun, timeZone?: string): void {
+  console.log(`  Last run: ${chalk.cyan(formatDate(run.startedAt, timeZone))}`);
+
+  if (run.error) {
+    console.log(`  Result: ${chalk.red(run.error)}`);
+    return;
+  }
+
+  const counts = [
+    `${run.synced} synced`,
+    `${run.updated} updated`,
+    `${run.deleted} deleted`,
+    `${run.duplicates} linked to existing worklogs`,
+    `${run.queued} queued`,
+    `${run.failed} failed`,
+  ].join(", ");
+
+  console.log(
+    `  Result: ${
+      run.failed > 0 || run.queued > 0
+        ? chalk.yellow(counts)
+        : chalk.green(counts)
+    }`
+  );
+}
+
 /**
  * View daemon logs with error handling
  */
@@ -8,13 +8,42 @@ import { Command } from "commander";
 import {
   startTrackingWithErrorHandling,
   stopTrackingWithErrorHandling,
+  pauseTrackingWithErrorHandling,
+  resumeTrackingWithErrorHandling,
   statusTrackingWithErrorHandling,
   syncTempoWithErrorHandling,
+  syncStatusCommand,
   setApiKeyCommand,
   setJiraAccountIdCommand,
+  setIdleTimeoutCommand,
+  setBranchPatternCommand,
+  setRoundingCommand,
+  setMinimumDurationCommand,
+  setConsolidationGapCommand,
+  setTimeZoneCommand,
   showConfigCommand,
+  testRulesCommand,
+  addIgnoreCommand,
+  removeIgnoreCommand,
+  listIgnoreCommand,
+  setJiraBaseUrlCommand,
+  setJiraEmailCommand,
+  setJiraApiTokenCommand,
   listLogsCommand,
+  addLogCommand,
+  editLogCommand,
+  splitLogCommand,
+  mergeLogsCommand,
+  deleteLogsCommand,
   clearLogsCommand,
+  reconstructCommand,
+  remotePullCommand,
+  diffCommand,
+  installHooksCommand,
+  uninstallHooksCommand,
+  notifyHookCommand,
+  setReconstructionCommand,
+  setAutoSyncCommand,
   setupCommand,
   startDaemonWithErrorHandling,
   stopDaemonWithErrorHandling,
@@ -43,11 +72,14 @@ export async function createCli(): Promise<Command> {
     .command("start")
     .description("Start tracking time on the current branch")
     .option("-d, --description <description>", "Description of the work")
-    .option("-i, --issue-id <issueId>", "Jira issue ID", parseInt)
+    .option(
+      "-i, --issue-id <issue>",
+      "Jira issue key (e.g. PROJECT-123) or numeric issue ID",
+    )
     .action((options) => {
       startTrackingWithErrorHandling({
         description: options.description,
-        issueId: options.issueId,
+        issue: options.issueId,
       });
     });
 
@@ -59,6 +91,22 @@ export async function createCli(): Promise<Command> {
       stopTrackingWithErrorHandling();
     });
 
+  // Pause command
+  program
+    .command("pause")
+    .description("Pause tracking time on the current branch")
+    .action(() => {
+      pauseTrackingWithErrorHandling();
+    });
+
+  // Resume command
+  program
+    .command("resume")
+    .description("Resume a paused tracking session")
+    .action(() => {
+      resumeTrackingWithErrorHandling();
+    });
+
   // Status command
   program
     .command("status")
@@ -68,16 +116,42 @@ export async function createCli(): Promise<Command> {
     });
 
   // Sync command
-  program
+  const syncCommand = program
     .command("sync")
     .description("Sync tracked time to Tempo")
     .option("-d, --date <date>", "Date to sync (YYYY-MM-DD), defaults to today")
+    .option("--from <date>", "First day to sync (YYYY-MM-DD)")
+    .option("--to <date>", "Last day to sync (YYYY-MM-DD), defaults to today")
+    .option("-a, --all-unsynced", "Sync every day that has unsynced time")
+    .option(
+      "-i, --issue <issue>",
+      "Only sync time on this Jira issue key or ID",
+    )
+    .option(
+      "--dry-run",
+      "Show the worklogs that would be sent without syncing anything",
+    )
+    .option("-f, --force", "Also sync entries that duplicate Tempo worklogs")
     .action((options) => {
       syncTempoWithErrorHandling({
         date: options.date,
+        from: options.from,
+        to: options.to,
+        allUnsynced: options.allUnsynced,
+        issue: options.issue,
+        dryRun: options.dryRun,
+        force: options.force,
       });
     });
 
+  syncCommand
+    .command("status")
+    .description("Show the worklog operations waiting to be sent to Tempo")
+    .option("--clear-failed", "Remove the operations Tempo rejected")
+    .action((options) => {
+      syncStatusCommand({ clearFailed: options.clearFailed });
+    });
+
   // Config commands
   const configCommand = program
     .command("config")
@@ -97,6 +171,110 @@ export async function createCli(): Promise<Command> {
       setJiraAccountIdCommand(id);
     });
 
+  configCommand
+    .command("set-jira-base-url <url>")
+    .description("Set Jira base URL (e.g. https://your-company.atlassian.net)")
+    .action((url) => {
+      setJiraBaseUrlCommand(url);
+    });
+
+  configCommand
+    .command("set-jira-email <email>")
+    .description("Set the email of your Jira account")
+    .action((email) => {
+      setJiraEmailCommand(email);
+    });
+
+  configCommand
+    .command("set-jira-api-token <token>")
+    .description("Set Jira API token used to resolve issue keys")
+    .action((token) => {
+      setJiraApiTokenCommand(token);
+    });
+
+  configCommand
+    .command("set-idle-timeout <minutes>")
+    .description(
+      "Stop sessions after this many minutes without repository activity (0 disables)",
+    )
+    .action((minutes) => {
+      setIdleTimeoutCommand(minutes);
+    });
+
+  configCommand
+    .command("set-branch-pattern <pattern>")
+    .description(
+      "Set the regex used to infer the Jira issue key from the branch name",
+    )
+    .action((pattern) => {
+      setBranchPatternCommand(pattern);
+    });
+
+  configCommand
+    .command("set-rounding <mode> [minutes]")
+    .description("Round worklogs to N minutes (mode: none, nearest, up, down)")
+    .action((mode, minutes) => {
+      setRoundingCommand(mode, minutes);
+    });
+
+  configCommand
+    .command("set-minimum-duration <minutes>")
+    .description("Skip entries shorter than this when syncing (0 disables)")
+    .option(
+      "-p, --policy <policy>",
+      "What to do with short entries: drop or merge into a neighbour",
+    )
+    .action((minutes, options) => {
+      setMinimumDurationCommand(minutes, options);
+    });
+
+  configCommand
+    .command("set-consolidation-gap <minutes>")
+    .description(
+      "Merge same-issue entries up to N minutes apart into one worklog",
+    )
+    .action((minutes) => {
+      setConsolidationGapCommand(minutes);
+    });
+
+  configCommand
+    .command("set-timezone <timezone>")
+    .description(
+      "Time zone for worklog dates and times, e.g. Europe/Berlin (system resets)",
+    )
+    .action((timeZone) => {
+      setTimeZoneCommand(timeZone);
+    });
+
+  configCommand
+    .command("set-reconstruction")
+    .description("Set the heuristics used by 'tempo reconstruct'")
+    .option(
+      "--lead-time <minutes>",
+      "Minutes of work assumed before the first commit",
+    )
+    .option(
+      "--max-gap <minutes>",
+      "Gaps between commits longer than this end a block of work",
+    )
+    .action((options) => {
+      setReconstructionCommand(options);
+    });
+
+  configCommand
+    .command("set-auto-sync <mode>")
+    .description(
+      "Let the daemon sync finished entries (mode: off, daily, after-session)",
+    )
+    .option("--at <time>", "Time of the daily sync (HH:MM), 18:00 by default")
+    .option(
+      "--delay <minutes>",
+      "Minutes after the last session ends to sync, 15 by default",
+    )
+    .action((mode, options) => {
+      setAutoSyncCommand(mode, options);
+    });
+
   configCommand
     .command("show")
     .description("Show current configuration")
@@ -104,24 +282,156 @@ export async function createCli(): Promise<Command> {
       showConfigCommand();
     });
 
+  // Rules commands
+  const rulesCommand = program
+    .command("rules")
+    .description("Inspect branch-to-issue rules");
+
+  rulesCommand
+    .command("test <branch>")
+    .description("Show which rule matches a branch")
+    .option(
+      "-r, --repository <repository>",
+      "Repository name, defaults to the current repository",
+    )
+    .action((branch, options) => {
+      testRulesCommand(branch, options);
+    });
+
+  // Ignore commands
+  const ignoreCommand = program
+    .command("ignore")
+    .description("Manage repositories, directories and branches never tracked");
+
+  ignoreCommand
+    .command("repository <pattern>")
+    .description("Ignore repositories whose name matches a glob or /regex/")
+    .action((pattern) => {
+      addIgnoreCommand("repository", pattern);
+    });
+
+  ignoreCommand
+    .command("path <glob>")
+    .description(
+      "Ignore working trees in or below a directory, e.g. ~/src/vendor",
+    )
+    .action((glob) => {
+      addIgnoreCommand("path", glob);
+    });
+
+  ignoreCommand
+    .command("branch <pattern>")
+    .description("Ignore branches matching a glob or /regex/")
+    .action((pattern) => {
+      addIgnoreCommand("branch", pattern);
+    });
+
+  ignoreCommand
+    .command("remove <pattern>")
+    .description("Stop ignoring a pattern")
+    .action((pattern) => {
+      removeIgnoreCommand(pattern);
+    });
+
+  ignoreCommand
+    .command("list")
+    .description("List the ignored repositories, paths and branches")
+    .action(() => {
+      listIgnoreCommand();
+    });
+
   // Logs commands
   const logsCommand = program
     .command("logs")
+    .alias("log")
     .description("Manage time tracking logs");
 
+  logsCommand
+    .command("add")
+    .description("Add a time entry for work done outside of tracking")
+    .requiredOption("-i, --issue <issue>", "Jira issue key or ID")
+    .requiredOption("--from <time>", "Start time (HH:MM)")
+    .requiredOption("--to <time>", "End time (HH:MM)")
+    .option(
+      "--date <date>",
+      "Date of the entry (YYYY-MM-DD), defaults to today",
+    )
+    .option("-d, --description <description>", "Description of the work")
+    .action((options) => {
+      addLogCommand(options);
+    });
+
   logsCommand
     .command("list")
     .description("List time tracking logs")
     .option("-l, --limit <limit>", "Limit number of logs", parseInt)
     .option("-d, --date <date>", "Filter by date (YYYY-MM-DD)")
     .option("-b, --branch <branch>", "Filter by branch")
-    .option("-i, --issue-id <issueId>", "Filter by issue ID", parseInt)
-    .option("-a, --all", "Show all logs including synced ones")
+    .option(
+      "-r, --repository <path>",
+      "Filter by repository, including all of its worktrees",
+    )
+    .option("-i, --issue-id <issue>", "Filter by issue key or ID")
+    .option(
+      "-a, --all",
+      "Show all logs, including synced and dropped ones and pulled Tempo worklogs",
+    )
     .option("-f, --format <format>", "Output format (table, json)")
     .action((options) => {
       listLogsCommand(options);
     });
 
+  logsCommand
+    .command("edit <id>")
+    .description("Change the times, issue or description of a log entry")
+    .option(
+      "--date <date>",
+      "Date for --from/--to (YYYY-MM-DD), defaults to the entry's date",
+    )
+    .option("--from <time>", "New start time (HH:MM)")
+    .option(
+      "--to <time>",
+      "New end time (HH:MM), on the next day if it is before the start",
+    )
+    .option("-i, --issue <issue>", "New Jira issue key or ID")
+    .option("-d, --description <description>", "New description")
+    .action((id, options) => {
+      editLogCommand(id, options);
+    });
+
+  logsCommand
+    .command("split <id>")
+    .description("Split a log entry in two")
+    .requiredOption("--at <time>", "Time to split at (HH:MM)")
+    .option(
+      "--date <date>",
+      "Date of the split time (YYYY-MM-DD), defaults to the entry's date",
+    )
+    .action((id, options) => {
+      splitLogCommand(id, options);
+    });
+
+  logsCommand
+    .command("merge <id> <otherId>")
+    .description("Merge two adjacent log entries on the same issue")
+    .action((id, otherId) => {
+      mergeLogsCommand(id, otherId);
+    });
+
+  logsCommand
+    .command("delete [id]")
+    .description("Delete a log entry, or all entries matching the filters")
+    .option("-d, --date <date>", "Filter by date (YYYY-MM-DD)")
+    .option("-b, --branch <branch>", "Filter by branch")
+    .option("-i, --issue-id <issue>", "Filter by issue key or ID")
+    .option(
+      "-f, --force",
+      "Also delete entries synced without a Tempo worklog ID",
+    )
+    .action((id, options) => {
+      deleteLogsCommand(id, options);
+    });
+
   logsCommand
     .command("clear")
     .description("Clear all time tracking logs")
@@ -129,6 +439,91 @@ export async function createCli(): Promise<Command> {
       clearLogsCommand();
     });
 
+  // Remote worklog commands
+  const remoteCommand = program
+    .command("remote")
+    .description("Work with the worklogs in Tempo");
+
+  remoteCommand
+    .command("pull")
+    .description(
+      "Cache your Tempo worklogs, including ones logged by other tools",
+    )
+    .option("--from <date>", "First day to pull (YYYY-MM-DD), defaults to --to")
+    .option("--to <date>", "Last day to pull (YYYY-MM-DD), defaults to today")
+    .action((options) => {
+      remotePullCommand(options);
+    });
+
+  program
+    .command("diff")
+    .description("Compare local entries with your worklogs in Tempo")
+    .option(
+      "--from <date>",
+      "First day to compare (YYYY-MM-DD), defaults to --to",
+    )
+    .option(
+      "--to <date>",
+      "Last day to compare (YYYY-MM-DD), defaults to today",
+    )
+    .option("--cached", "Compare with the worklogs pulled before")
+    .action((options) => {
+      diffCommand(options);
+    });
+
+  // Reconstruct command
+  program
+    .command("reconstruct")
+    .description("Propose log entries for a day from git history")
+    .requiredOption("--date <date>", "Date to reconstruct (YYYY-MM-DD)")
+    .option(
+      "-r, --repo <path>",
+      "Repository to read, defaults to the current directory",
+    )
+    .option(
+      "--lead-time <minutes>",
+      "Minutes of work assumed before the first commit",
+    )
+    .option(
+      "--max-gap <minutes>",
+      "Gaps between commits longer than this end a block of work",
+    )
+    .action((options) => {
+      reconstructCommand(options);
+    });
+
+  // Hooks commands
+  const hooksCommand = program
+    .command("hooks")
+    .description("Manage git hooks that report branch switches instantly");
+
+  hooksCommand
+    .command("install")
+    .description("Install the git hooks in the current repository")
+    .option("-g, --global", "Install for all repositories via core.hooksPath")
+    .option(
+      "--set-hooks-path",
+      "Point an unset core.hooksPath at Tempo's hooks directory",
+    )
+    .action((options) => {
+      installHooksCommand(options);
+    });
+
+  hooksCommand
+    .command("uninstall")
+    .description("Remove the git hooks from the current repository")
+    .option("-g, --global", "Remove the hooks installed via core.hooksPath")
+    .action((options) => {
+      uninstallHooksCommand(options);
+    });
+
+  hooksCommand
+    .command("notify <event>", { hidden: true })
+    .description("Notify the daemon of a git event (used by the hooks)")
+    .action((event) => {
+      notifyHookCommand(event);
+    });
+
   // Setup command
   program
     .command("setup")
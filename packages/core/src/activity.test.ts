@@ -0,0 +1,102 @@
+import { describe, expect, it } from "bun:test";
+import { splitActivityByDay } from "./activity";
+import type { ActivityLogEntry } from "./config";
+import { formatLocalDate } from "./utils/format";
+
+const BERLIN = "Europe/Berlin";
+
+function createActivity(startTime: string, endTime: string): ActivityLogEntry {
+  return {
+    id: "activity",
+    branch: "main",
+    directory: "/repo",
+    startTime,
+    endTime,
+    issueId: 1,
+    synced: false,
+  };
+}
+
+function describeParts(parts: ActivityLogEntry[]) {
+  return parts.map((part) => ({
+    date: formatLocalDate(new Date(part.startTime), BERLIN),
+    startTime: part.startTime,
+    endTime: part.endTime,
+  }));
+}
+
+describe("splitActivityByDay", () => {
+  it("splits a session at midnight on the night of the spring change", () => {
+    // 22:00 CET to 04:00 CEST, of which only 3 hours are after midnight
+    const activity = createActivity(
+      "2026-03-28T21:00:00.000Z",
+      "2026-03-29T02:00:00.000Z",
+    );
+
+    expect(describeParts(splitActivityByDay(activity, BERLIN))).toEqual([
+      {
+        date: "2026-03-28",
+        startTime: "2026-03-28T21:00:00.000Z",
+        endTime: "2026-03-28T23:00:00.000Z",
+      },
+      {
+        date: "2026-03-29",
+        startTime: "2026-03-28T23:00:00.000Z",
+        endTime: "2026-03-29T02:00:00.000Z",
+      },
+    ]);
+  });
+
+  it("splits a session at midnight on the night of the autumn change", () => {
+    // 23:00 CEST to 04:00 CET, of which 5 hours are after midnight
+    const activity = createActivity(
+      "2026-10-24T21:00:00.000Z",
+      "2026-10-25T03:00:00.000Z",
+    );
+
+    expect(describeParts(splitActivityByDay(activity, BERLIN))).toEqual([
+      {
+        date: "2026-10-24",
+        startTime: "2026-10-24T21:00:00.000Z",
+        endTime: "2026-10-24T22:00:00.000Z",
+      },
+      {
+        date: "2026-10-25",
+        startTime: "2026-10-24T22:00:00.000Z",
+        endTime: "2026-10-25T03:00:00.000Z",
+      },
+    ]);
+  });
+
+  it("keeps a session within the repeated hour whole", () => {
+    // 02:10 CEST to 02:50 CET, across the change but on one day
+    const activity = createActivity(
+      "2026-10-25T00:10:00.000Z",
+      "2026-10-25T01:50:00.000Z",
+    );
+
+    expect(splitActivityByDay(activity, BERLIN)).toEqual([activity]);
+  });
+
+  it("keeps the pauses of each day", () => {
+    const activity = {
+      ...createActivity("2026-03-28T22:00:00.000Z", "2026-03-29T01:00:00.000Z"),
+      intervals: [
+        { start: "2026-03-28T22:00:00.000Z", end: "2026-03-28T22:30:00.000Z" },
+        { start: "2026-03-28T22:45:00.000Z", end: "2026-03-28T23:30:00.000Z" },
+        { start: "2026-03-29T00:30:00.000Z", end: "2026-03-29T01:00:00.000Z" },
+      ],
+    };
+
+    const [before, after] = splitActivityByDay(activity, BERLIN);
+
+    expect(before.intervals).toEqual([
+      { start: "2026-03-28T22:00:00.000Z", end: "2026-03-28T22:30:00.000Z" },
+      { start: "2026-03-28T22:45:00.000Z", end: "2026-03-28T23:00:00.000Z" },
+    ]);
+    expect(after.intervals).toEqual([
+      { start: "2026-03-28T23:00:00.000Z", end: "2026-03-28T23:30:00.000Z" },
+      { start: "2026-03-29T00:30:00.000Z", end: "2026-03-29T01:00:00.000Z" },
+    ]);
+  });
+});
@@ -0,0 +1,639 @@
+/**
+ * Activity log operations for Tempo CLI
+ *
+ * Handles manual entries and corrections of recorded activities
+ * independent of any frontend
+ */
+
+import path from "path";
+import {
+  addActivityLog,
+  getActivityLog,
+  getConfig,
+  removeActivityLog,
+  removeActivityLogs,
+  updateActivityLog,
+} from "./config";
+import type { ActivityLogEntry } from "./config";
+import {
+  IssueReference,
+  findCachedIssueKey,
+  parseIssueReference,
+  resolveIssueReference,
+} from "./jira";
+import { getGitRepositoryInfo } from "./git";
+import { discardQueuedOperations, enqueueOperations } from "./outbox";
+import type { SessionInterval } from "./tracking";
+import { formatLocalDate, getDayRange } from "./utils/format";
+
+// Number of characters of an activity ID shown to users
+export const SHORT_ID_LENGTH = 8;
+
+/**
+ * Filters for selecting activity log entries
+ */
+export interface ActivityFilters {
+  date?: string; // YYYY-MM-DD
+  branch?: string;
+  repository?: string; // Path in the repository, matches all of its worktrees
+  issue?: string; // Jira issue key or ID
+  includeSynced?: boolean;
+  timeZone?: string; // Time zone of the date, the system one by default
+}
+
+/**
+ * Shorten an activity ID for display
+ */
+export function shortActivityId(id: string): string {
+  return id.substring(0, SHORT_ID_LENGTH);
+}
+
+/**
+ * Get the canonical path of the repository an activity log entry belongs to
+ *
+ * Entries recorded before worktree support only know their directory.
+ */
+export function getActivityRepository(
+  activity: ActivityLogEntry,
+): string | undefined {
+  if (activity.repository) {
+    return activity.repository;
+  }
+
+  if (!activity.directory) {
+    return undefined;
+  }
+
+  return (
+    getGitRepositoryInfo(activity.directory)?.repository ?? activity.directory
+  );
+}
+
+/**
+ * Find an activity log entry by its ID or a unique prefix of it
+ */
+export async function getActivityById(id: string): Promise<ActivityLogEntry> {
+  const activities = await getActivityLog();
+  const exactMatch = activities.find((activity) => activity.id === id);
+
+  if (exactMatch) {
+    return exactMatch;
+  }
+
+  const matches = activities.filter((activity) => activity.id.startsWith(id));
+
+  if (matches.length === 0) {
+    throw new Error(`Activity with ID ${id} not found`);
+  }
+
+  if (matches.length > 1) {
+    throw new Error(
+      `Activity ID ${id} is ambiguous, it matches ${matches.length} entries. Use a longer prefix.`,
+    );
+  }
+
+  return matches[0];
+}
+
+/**
+ * Select the activity log entries matching the given filters
+ */
+export async function filterActivities(
+  activities: ActivityLogEntry[],
+  filters: ActivityFilters,
+): Promise<ActivityLogEntry[]> {
+  let filteredActivities = [...activities];
+
+  // Filter by date
+  if (filters.date) {
+    const { start: dateStart, end: dateEnd } = getDayRange(
+      filters.date,
+      filters.timeZone,
+    );
+
+    // Entries crossing midnight show up on every day they cover
+    filteredActivities = filteredActivities.filter((activity) => {
+      const activityStart = new Date(activity.startTime);
+
+      if (!activity.endTime) {
+        return activityStart >= dateStart && activityStart < dateEnd;
+      }
+
+      return activityStart < dateEnd && new Date(activity.endTime) > dateStart;
+    });
+  }
+
+  // Filter by branch
+  if (filters.branch) {
+    filteredActivities = filteredActivities.filter(
+      (activity) => activity.branch === filters.branch,
+    );
+  }
+
+  // Filter by repository, including all of its worktrees
+  if (filters.repository) {
+    const repository =
+      getGitRepositoryInfo(filters.repository)?.repository ??
+      path.resolve(filters.repository);
+
+    filteredActivities = filteredActivities.filter(
+      (activity) => getActivityRepository(activity) === repository,
+    );
+  }
+
+  // Filter by issue key or ID
+  if (filters.issue) {
+    // Match on both the key and the ID, since older entries only have an ID
+    const issue = parseIssueReference(filters.issue);
+    const { issueKeyCache } = await getConfig();
+    const issueKey =
+      issue.issueKey ??
+      (issue.issueId ? await findCachedIssueKey(issue.issueId) : undefined);
+    const issueId =
+      issue.issueId ?? (issueKey ? issueKeyCache[issueKey] : undefined);
+
+    filteredActivities = filteredActivities.filter(
+      (activity) =>
+        (issueKey !== undefined && activity.issueKey === issueKey) ||
+        (!!issueId && activity.issueId === issueId),
+    );
+  }
+
+  // Filter by synced status
+  if (!filters.includeSynced) {
+    filteredActivities = filteredActivities.filter(
+      (activity) => !activity.synced && !activity.dropped,
+    );
+  }
+
+  return filteredActivities;
+}
+
+/**
+ * Find the activity log entries that overlap a time range
+ */
+export function findOverlappingActivities(
+  activities: ActivityLogEntry[],
+  startTime: string,
+  endTime: string,
+  excludeIds: string[] = [],
+): ActivityLogEntry[] {
+  const start = new Date(startTime).getTime();
+  const end = new Date(endTime).getTime();
+
+  return activities.filter((activity) => {
+    if (excludeIds.includes(activity.id)) {
+      return false;
+    }
+
+    const activityStart = new Date(activity.startTime).getTime();
+    const activityEnd = activity.endTime
+      ? new Date(activity.endTime).getTime()
+      : Date.now();
+
+    return activityStart < end && activityEnd > start;
+  });
+}
+
+/**
+ * Record work done outside of a tracking session in the activity log
+ *
+ * Returns the new entry together with the existing entries it overlaps.
+ */
+export async function addManualActivity(activity: {
+  startTime: Date;
+  endTime: Date;
+  issueId?: number;
+  issueKey?: string;
+  description?: string;
+  directory?: string;
+}): Promise<{ entry: ActivityLogEntry; overlaps: ActivityLogEntry[] }> {
+  if (activity.endTime <= activity.startTime) {
+    throw new Error("End time must be after start time");
+  }
+
+  if (!activity.issueId && !activity.issueKey) {
+    throw new Error("An issue is required for manual entries");
+  }
+
+  const issue = await resolveIssueReference(activity);
+  const startTime = activity.startTime.toISOString();
+  const endTime = activity.endTime.toISOString();
+  const overlaps = findOverlappingActivities(
+    await getActivityLog(),
+    startTime,
+    endTime,
+  );
+
+  const entry = await addActivityLog({
+    branch: "",
+    directory: activity.directory ?? "",
+    repository: activity.directory
+      ? getGitRepositoryInfo(activity.directory)?.repository
+      : undefined,
+    startTime,
+    endTime,
+    ...issue,
+    description: activity.description,
+    manual: true,
+  });
+
+  return { entry, overlaps };
+}
+
+/**
+ * Clip the intervals of an entry to a time range
+ *
+ * With `extend`, the first and last interval are stretched to the range so
+ * that moving the start or end of an entry keeps its pauses.
+ */
+function clipIntervals(
+  intervals: Required<SessionInterval>[],
+  startTime: string,
+  endTime: string,
+  extend = false,
+): Required<SessionInterval>[] {
+  const start = new Date(startTime).getTime();
+  const end = new Date(endTime).getTime();
+
+  const clipped = intervals
+    .filter(
+      (interval) =>
+        new Date(interval.start).getTime() < end &&
+        new Date(interval.end).getTime() > start,
+    )
+    .map((interval) => ({
+      start: new Date(
+        Math.max(new Date(interval.start).getTime(), start),
+      ).toISOString(),
+      end: new Date(
+        Math.min(new Date(interval.end).getTime(), end),
+      ).toISOString(),
+    }));
+
+  if (extend && clipped.length > 0) {
+    clipped[0].start = startTime;
+    clipped[clipped.length - 1].end = endTime;
+  }
+
+  return clipped;
+}
+
+/**
+ * Split an activity log entry into its parts on each day in a time zone
+ *
+ * The parts keep the ID of the entry. Unfinished entries and entries within
+ * a single day are returned as they are.
+ */
+export function splitActivityByDay(
+  activity: ActivityLogEntry,
+  timeZone?: string,
+): ActivityLogEntry[] {
+  if (!activity.endTime) {
+    return [activity];
+  }
+
+  const intervals = activity.intervals ?? [
+    { start: activity.startTime, end: activity.endTime },
+  ];
+  const end = new Date(activity.endTime);
+  const parts: ActivityLogEntry[] = [];
+  let dayStart = new Date(activity.startTime);
+
+  while (dayStart < end) {
+    const nextDay = getDayRange(
+      formatLocalDate(dayStart, timeZone),
+      timeZone,
+    ).end;
+    const dayEnd = nextDay < end ? nextDay : end;
+
+    const clipped = clipIntervals(
+      intervals,
+      dayStart.toISOString(),
+      dayEnd.toISOString(),
+    );
+    if (clipped.length > 0) {
+      parts.push({
+        ...activity,
+        startTime: clipped[0].start,
+        endTime: clipped[clipped.length - 1].end,
+        intervals: clipped.length > 1 ? clipped : undefined,
+      });
+    }
+
+    dayStart = dayEnd;
+  }
+
+  return parts.length > 1 ? parts : [activity];
+}
+
+/**
+ * Get the days (YYYY-MM-DD) in a time zone an activity log entry has
+ * tracked time on
+ */
+export function getActivityDates(
+  activity: ActivityLogEntry,
+  timeZone?: string,
+): string[] {
+  return splitActivityByDay(activity, timeZone).map((part) =>
+    formatLocalDate(new Date(part.startTime), timeZone),
+  );
+}
+
+/**
+ * Check if any of the work of an entry has been synced to Tempo
+ */
+function hasSyncedWork(activity: ActivityLogEntry): boolean {
+  return (
+    activity.synced ||
+    (activity.syncedDates?.length ?? 0) > 0 ||
+    Object.keys(activity.tempoWorklogIds ?? {}).length > 0
+  );
+}
+
+/**
+ * Build the update for an entry whose tracked time changed
+ *
+ * Synced entries are flagged as needing an update in Tempo instead of being
+ * changed silently. Days dropped as too short are planned again.
+ */
+function withUpdateFlag(
+  activity: ActivityLogEntry,
+  updates: Partial<Omit<ActivityLogEntry, "id">>,
+): Partial<Omit<ActivityLogEntry, "id">> {
+  const reset = { ...updates, droppedDates: undefined, dropped: undefined };
+  return hasSyncedWork(activity) ? { ...reset, needsUpdate: true } : reset;
+}
+
+/**
+ * Edit the times, issue or description of an activity log entry
+ */
+export async function editActivity(
+  id: string,
+  changes: {
+    startTime?: Date;
+    endTime?: Date;
+    issue?: IssueReference;
+    description?: string;
+  },
+): Promise<ActivityLogEntry> {
+  const activity = await getActivityById(id);
+
+  if (!activity.endTime) {
+    throw new Error("Only finished activities can be edited");
+  }
+
+  const startTime = changes.startTime?.toISOString() ?? activity.startTime;
+  const endTime = changes.endTime?.toISOString() ?? activity.endTime;
+
+  if (new Date(endTime) <= new Date(startTime)) {
+    throw new Error("End time must be after start time");
+  }
+
+  const updates: Partial<Omit<ActivityLogEntry, "id">> = {
+    startTime,
+    endTime,
+  };
+
+  if (activity.intervals) {
+    const intervals = clipIntervals(
+      activity.intervals,
+      startTime,
+      endTime,
+      true,
+    );
+    updates.intervals = intervals.length > 1 ? intervals : undefined;
+  }
+
+  if (changes.issue) {
+    const issue = await resolveIssueReference(changes.issue);
+    updates.issueId = issue.issueId;
+    updates.issueKey = issue.issueKey;
+  }
+
+  if (changes.description !== undefined) {
+    updates.description = changes.description || undefined;
+  }
+
+  await discardQueuedOperations([id]);
+  return updateActivityLog(id, withUpdateFlag(activity, updates));
+}
+
+/**
+ * Split an activity log entry in two at a point in time
+ *
+ * The original entry keeps the part before the split; the part after it
+ * becomes a new, unsynced entry.
+ */
+export async function splitActivity(
+  id: string,
+  at: Date,
+): Promise<[ActivityLogEntry, ActivityLogEntry]> {
+  const activity = await getActivityById(id);
+
+  if (!activity.endTime) {
+    throw new Error("Only finished activities can be split");
+  }
+
+  const splitTime = at.toISOString();
+  if (at <= new Date(activity.startTime) || at >= new Date(activity.endTime)) {
+    throw new Error("Split time must be between the start and end time");
+  }
+
+  const intervals = activity.intervals ?? [
+    { start: activity.startTime, end: activity.endTime },
+  ];
+  const before = clipIntervals(intervals, activity.startTime, splitTime);
+  const after = clipIntervals(intervals, splitTime, activity.endTime);
+
+  await discardQueuedOperations([id]);
+  const first = await updateActivityLog(
+    id,
+    withUpdateFlag(activity, {
+      endTime: splitTime,
+      intervals: before.length > 1 ? before : undefined,
+    }),
+  );
+
+  const second = await addActivityLog({
+    branch: activity.branch,
+    directory: activity.directory,
+    repository: activity.repository,
+    startTime: splitTime,
+    endTime: activity.endTime,
+    intervals: after.length > 1 ? after : undefined,
+    issueId: activity.issueId,
+    issueKey: activity.issueKey,
+    description: activity.description,
+    manual: activity.manual,
+  });
+
+  return [first, second];
+}
+
+/**
+ * Merge two adjacent activity log entries into one
+ *
+ * The entries must be on the same issue and no other entry may lie between
+ * them. The gap between them isn't counted as tracked time.
+ */
+export async function mergeActivities(
+  firstId: string,
+  secondId: string,
+): Promise<ActivityLogEntry> {
+  if (firstId === secondId) {
+    throw new Error("Cannot merge an activity with itself");
+  }
+
+  const activities = await getActivityLog();
+  const [first, second] = [
+    await getActivityById(firstId),
+    await getActivityById(secondId),
+  ].sort(
+    (a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime(),
+  );
+
+  if (!first.endTime || !second.endTime) {
+    throw new Error("Only finished activities can be merged");
+  }
+
+  if (first.issueId !== second.issueId || first.issueKey !== second.issueKey) {
+    throw new Error(
+      "Activities are on different issues. Edit one of them first.",
+    );
+  }
+
+  if (new Date(second.startTime) < new Date(first.endTime)) {
+    throw new Error("Activities overlap and can't be merged");
+  }
+
+  const between = findOverlappingActivities(
+    activities,
+    first.endTime,
+    second.startTime,
+    [first.id, second.id],
+  );
+  if (between.length > 0) {
+    throw new Error("Only adjacent activities can be merged");
+  }
+
+  if (first.synced && second.synced) {
+    throw new Error(
+      "Both activities are already synced. Delete one of them first.",
+    );
+  }
+
+  // Keep the synced entry so its Tempo worklog gets updated
+  const [kept, removed] = second.synced ? [second, first] : [first, second];
+
+  const intervals = [
+    ...(first.intervals ?? [{ start: first.startTime, end: first.endTime }]),
+    ...(second.intervals ?? [{ start: second.startTime, end: second.endTime }]),
+  ];
+
+  await releaseTempoWorklogs([removed.id]);
+  await discardQueuedOperations([kept.id]);
+  const merged = await updateActivityLog(
+    kept.id,
+    withUpdateFlag(kept, {
+      startTime: first.startTime,
+      endTime: second.endTime,
+      intervals: intervals.length > 1 ? intervals : undefined,
+      description: kept.description ?? removed.description,
+    }),
+  );
+  await removeActivityLog(removed.id);
+
+  return merged;
+}
+
+/**
+ * Check if an entry was synced before Tempo worklog IDs were stored, so its
+ * worklogs can't be changed from here
+ */
+export function hasUnlinkedSyncedWork(activity: ActivityLogEntry): boolean {
+  return (
+    hasSyncedWork(activity) &&
+    Object.keys(activity.tempoWorklogIds ?? {}).length === 0
+  );
+}
+
+/**
+ * Release the Tempo worklogs of entries that are about to be removed
+ *
+ * Worklogs shared with other entries are rebuilt from those entries on the
+ * next sync; the others are queued for deletion. Returns the number of
+ * worklogs queued.
+ */
+async function releaseTempoWorklogs(ids: string[]): Promise<number> {
+  const activities = await getActivityLog();
+  const remaining = activities.filter((activity) => !ids.includes(activity.id));
+  const deletions: number[] = [];
+  const affected = [...ids];
+
+  for (const activity of activities) {
+    if (!ids.includes(activity.id)) {
+      continue;
+    }
+
+    for (const [date, worklogId] of Object.entries(
+      activity.tempoWorklogIds ?? {},
+    )) {
+      const sharing = remaining.filter(
+        (other) => other.tempoWorklogIds?.[date] === worklogId,
+      );
+
+      for (const other of sharing) {
+        await updateActivityLog(other.id, { needsUpdate: true });
+        affected.push(other.id);
+      }
+
+      if (sharing.length === 0 && !deletions.includes(worklogId)) {
+        deletions.push(worklogId);
+      }
+    }
+  }
+
+  await discardQueuedOperations(affected);
+  if (deletions.length > 0) {
+    await enqueueOperations(
+      deletions.map((worklogId) => ({
+        type: "delete" as const,
+        activityIds: ids,
+        tempoWorklogId: worklogId,
+      })),
+    );
+  }
+
+  return deletions.length;
+}
+
+/**
+ * Delete activity log entries
+ *
+ * The Tempo worklogs of synced entries are deleted on the next sync. Entries
+ * synced before worklog IDs were stored are only deleted with `force`, since
+ * deleting them locally leaves their worklogs in Tempo.
+ *
+ * Returns the number of Tempo worklogs queued for deletion.
+ */
+export async function deleteActivities(
+  ids: string[],
+  options: { force?: boolean } = {},
+): Promise<number> {
+  const activities = await getActivityLog();
+  const unlinked = activities.filter(
+    (activity) => ids.includes(activity.id) && hasUnlinkedSyncedWork(activity),
+  );
+
+  if (unlinked.length > 0 && !options.force) {
+    throw new Error(
+      `${unlinked.length} of the selected entries were synced without a Tempo worklog ID. Use --force to delete them anyway.`,
+    );
+  }
+
+  const deletions = await releaseTempoWorklogs(ids);
+  await removeActivityLogs(ids);
+
+  return deletions;
+}
@@ -0,0 +1,151 @@
+/**
+ * Automatic sync schedule for Tempo CLI
+ *
+ * Decides when the daemon syncs finished entries to Tempo on its own
+ */
+
+import type { ActivityLogEntry, ConfigType } from "./config";
+import type { SyncResult } from "./worklog";
+import { formatLocalDate, parseLocalDateTime } from "./utils/format";
+
+/**
+ * When the daemon syncs on its own
+ *
+ * - off: never
+ * - daily: once a day, at a local time
+ * - afterSession: a delay after the last entry waiting to be synced ended
+ */
+export interface AutoSyncSchedule {
+  mode: ConfigType["autoSyncMode"];
+  time: string; // HH:MM, for daily syncs
+  delayMinutes: number; // For syncs after a session
+  timeZone?: string;
+}
+
+/**
+ * Outcome of an automatic sync
+ */
+export interface AutoSyncRun {
+  startedAt: string;
+  finishedAt: string;
+  synced: number;
+  updated: number;
+  deleted: number;
+  queued: number;
+  failed: number;
+  duplicates: number;
+  error?: string; // Why the sync couldn't run at all
+}
+
+/**
+ * Get the automatic sync schedule from the configuration
+ */
+export function getAutoSyncSchedule(config: ConfigType): AutoSyncSchedule {
+  return {
+    mode: config.autoSyncMode,
+    time: config.autoSyncTime,
+    delayMinutes: config.autoSyncDelayMinutes,
+    timeZone: config.timeZone || undefined,
+  };
+}
+
+/**
+ * Describe an automatic sync schedule
+ */
+export function describeAutoSyncSchedule(schedule: AutoSyncSchedule): string {
+  switch (schedule.mode) {
+    case "off":
+      return "off";
+    case "daily":
+      return `every day at ${schedule.time}`;
+    case "afterSession":
+      return `${schedule.delayMinutes} minutes after a session ends`;
+  }
+}
+
+/**
+ * Get the time the automatic sync became due, if it is due
+ *
+ * A sync is due once its time has passed and no automatic sync ran since.
+ * Syncs after a session are only due while entries wait to be synced.
+ */
+export function getDueAutoSync(
+  schedule: AutoSyncSchedule,
+  activities: ActivityLogEntry[],
+  lastRunAt?: Date,
+  now: Date = new Date(),
+): Date | undefined {
+  let dueAt: Date;
+
+  switch (schedule.mode) {
+    case "off":
+      return undefined;
+    case "daily":
+      dueAt = parseLocalDateTime(
+        formatLocalDate(now, schedule.timeZone),
+        schedule.time,
+        schedule.timeZone,
+      );
+      break;
+    case "afterSession": {
+      const lastEnd = Math.max(
+        ...activities
+          .filter(
+            (activity) =>
+              activity.endTime &&
+              ((!activity.synced && !activity.dropped) || activity.needsUpdate),
+          )
+          .map((activity) => new Date(activity.endTime!).getTime()),
+      );
+
+      if (!isFinite(lastEnd)) {
+        return undefined;
+      }
+
+      dueAt = new Date(lastEnd + schedule.delayMinutes * 60 * 1000);
+      break;
+    }
+  }
+
+  if (now < dueAt || (lastRunAt && lastRunAt >= dueAt)) {
+    return undefined;
+  }
+
+  return dueAt;
+}
+
+/**
+ * Summarize the result of an automatic sync, or the error that stopped it
+ */
+export function toAutoSyncRun(
+  startedAt: Date,
+  result: SyncResult | Error,
+): AutoSyncRun {
+  const run = {
+    startedAt: startedAt.toISOString(),
+    finishedAt: new Date().toISOString(),
+  };
+
+  if (result instanceof Error) {
+    return {
+      ...run,
+      synced: 0,
+      updated: 0,
+      deleted: 0,
+      queued: 0,
+      failed: 0,
+      duplicates: 0,
+      error: result.message,
+    };
+  }
+
+  return {
+    ...run,
+    synced: result.synced,
+    updated: result.updated,
+    deleted: result.deleted,
+    queued: result.queued,
+    failed: result.failed,
+    duplicates: result.duplicates.length,
+  };
+}
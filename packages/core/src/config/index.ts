@@ -7,23 +7,111 @@
 
 import Conf from "conf";
 import { z } from "zod";
+import { DEFAULT_BRANCH_ISSUE_PATTERN } from "../constants";
+import { findGitRoot } from "../git";
+import {
+  branchRuleSchema,
+  loadProjectConfig,
+  getProjectConfigPath,
+  PROJECT_CONFIG_KEYS,
+  ProjectConfigKey,
+} from "./project";
+
+export * from "./project";
 
 // Define the configuration schema using Zod
 const configSchema = z.object({
   tempoBaseUrl: z.string().default("https://api.eu.tempo.io/4"),
   apiKey: z.string().optional(),
   jiraAccountId: z.string().optional(),
+  jiraBaseUrl: z.string().optional(),
+  jiraEmail: z.string().optional(),
+  jiraApiToken: z.string().optional(),
+  issueKeyCache: z.record(z.string(), z.number()).default({}),
+  idleTimeoutMinutes: z.number().default(30),
+  branchIssuePattern: z.string().default(DEFAULT_BRANCH_ISSUE_PATTERN),
+  defaultIssue: z.string().optional(),
+  ignoredBranches: z.array(z.string()).default([]),
+  ignoredRepositories: z.array(z.string()).default([]),
+  ignoredPaths: z.array(z.string()).default([]),
+  branchRules: z.array(branchRuleSchema).default([]),
+  descriptionTemplate: z.string().optional(),
+  timeZone: z.string().optional(),
+  roundingMode: z.enum(["none", "nearest", "up", "down"]).default("none"),
+  roundingMinutes: z.number().default(15),
+  minimumDurationMinutes: z.number().default(0),
+  shortEntryPolicy: z.enum(["drop", "merge"]).default("drop"),
+  consolidationGapMinutes: z.number().default(5),
+  reconstructionLeadMinutes: z.number().default(30),
+  reconstructionGapMinutes: z.number().default(60),
+  autoSyncMode: z.enum(["off", "daily", "afterSession"]).default("off"),
+  autoSyncTime: z.string().default("18:00"),
+  autoSyncDelayMinutes: z.number().default(15),
+  remoteWorklogs: z
+    .array(
+      z.object({
+        tempoWorklogId: z.number(),
+        issueId: z.number(),
+        issueKey: z.string().optional(),
+        startDate: z.string(),
+        startDateTimeUtc: z.string(),
+        timeSpentSeconds: z.number(),
+        description: z.string(),
+        updatedAt: z.string().optional(),
+        pulledAt: z.string(),
+      }),
+    )
+    .default([]),
+  syncOutbox: z
+    .array(
+      z.object({
+        id: z.string(),
+        type: z.enum(["create", "update", "delete"]),
+        date: z.string().optional(),
+        activityIds: z.array(z.string()),
+        worklog: z
+          .object({
+            issueId: z.number(),
+            timeSpentSeconds: z.number(),
+            startDate: z.string(),
+            startTime: z.string(),
+            description: z.string(),
+            authorAccountId: z.string(),
+          })
+          .optional(),
+        issueKey: z.string().optional(),
+        tempoWorklogId: z.number().optional(),
+        force: z.boolean().optional(),
+        createdAt: z.string(),
+        attempts: z.number(),
+        nextAttemptAt: z.string().optional(),
+        lastError: z.string().optional(),
+        failed: z.boolean().optional(),
+      }),
+    )
+    .default([]),
   activityLog: z
     .array(
       z.object({
         id: z.string(),
         branch: z.string(),
         directory: z.string(),
+        repository: z.string().optional(),
         startTime: z.string(),
         endTime: z.string().optional(),
+        intervals: z
+          .array(z.object({ start: z.string(), end: z.string() }))
+          .optional(),
         issueId: z.number(),
+        issueKey: z.string().optional(),
         description: z.string().optional(),
+        manual: z.boolean().optional(),
         synced: z.boolean().default(false),
+        syncedDates: z.array(z.string()).optional(),
+        tempoWorklogIds: z.record(z.string(), z.number()).optional(), // By day (YYYY-MM-DD)
+        droppedDates: z.array(z.string()).optional(), // Days too short to book
+        dropped: z.boolean().optional(), // Every day was dropped
+        needsUpdate: z.boolean().optional(),
       }),
     )
     .default([]),
@@ -32,6 +120,25 @@ const configSchema = z.object({
 export type ConfigType = z.infer<typeof configSchema>;
 export type ActivityLogEntry = ConfigType["activityLog"][0];
 
+/**
+ * Where an effective configuration value came from
+ */
+export type ConfigSource = "default" | "global" | "project";
+
+/**
+ * Configuration of a repository with the project config merged over the
+ * global one
+ */
+export interface EffectiveConfig {
+  config: ConfigType;
+  sources: Record<ProjectConfigKey, ConfigSource>;
+  globalConfigPath: string;
+  projectConfigPath?: string;
+}
+
+// Default values of the global configuration
+const configDefaults = configSchema.parse({});
+
 let config: Conf<ConfigType>;
 
 /**
@@ -53,6 +160,123 @@ export async function initConfig() {
         type: "string",
         default: "",
       },
+      jiraBaseUrl: {
+        type: "string",
+        default: "",
+      },
+      jiraEmail: {
+        type: "string",
+        default: "",
+      },
+      jiraApiToken: {
+        type: "string",
+        default: "",
+      },
+      issueKeyCache: {
+        type: "object",
+        default: {},
+      },
+      idleTimeoutMinutes: {
+        type: "number",
+        minimum: 0,
+        default: 30,
+      },
+      branchIssuePattern: {
+        type: "string",
+        default: DEFAULT_BRANCH_ISSUE_PATTERN,
+      },
+      defaultIssue: {
+        type: "string",
+        default: "",
+      },
+      ignoredBranches: {
+        type: "array",
+        items: { type: "string" },
+        default: [],
+      },
+      ignoredRepositories: {
+        type: "array",
+        items: { type: "string" },
+        default: [],
+      },
+      ignoredPaths: {
+        type: "array",
+        items: { type: "string" },
+        default: [],
+      },
+      branchRules: {
+        type: "array",
+        items: { type: "object" },
+        default: [],
+      },
+      descriptionTemplate: {
+        type: "string",
+        default: "",
+      },
+      timeZone: {
+        type: "string",
+        default: "",
+      },
+      roundingMode: {
+        type: "string",
+        enum: ["none", "nearest", "up", "down"],
+        default: "none",
+      },
+      roundingMinutes: {
+        type: "number",
+        exclusiveMinimum: 0,
+        default: 15,
+      },
+      minimumDurationMinutes: {
+        type: "number",
+        minimum: 0,
+        default: 0,
+      },
+      shortEntryPolicy: {
+        type: "string",
+        enum: ["drop", "merge"],
+        default: "drop",
+      },
+      consolidationGapMinutes: {
+        type: "number",
+        minimum: 0,
+        default: 5,
+      },
+      reconstructionLeadMinutes: {
+        type: "number",
+        minimum: 0,
+        default: 30,
+      },
+      reconstructionGapMinutes: {
+        type: "number",
+        exclusiveMinimum: 0,
+        default: 60,
+      },
+      autoSyncMode: {
+        type: "string",
+        enum: ["off", "daily", "afterSession"],
+        default: "off",
+      },
+      autoSyncTime: {
+        type: "string",
+        pattern: "^([01]\\d|2[0-3]):[0-5]\\d$",
+        default: "18:00",
+      },
+      autoSyncDelayMinutes: {
+        type: "number",
+        minimum: 0,
+        default: 15,
+      },
+      remoteWorklogs: {
+        type: "array",
+        items: { type: "object" },
+        default: [],
+      },
+      syncOutbox: {
+        type: "array",
+        items: { type: "object" },
+        default: [],
+      },
       activityLog: {
         type: "array",
         default: [],
@@ -78,6 +302,65 @@ export async function getConfig(): Promise<ConfigType> {
   return config.store;
 }
 
+/**
+ * Get the path of the global configuration file
+ */
+export async function getConfigPath(): Promise<string> {
+  if (!config) {
+    await initConfig();
+  }
+  return config.path;
+}
+
+/**
+ * Get the configuration that applies to a directory
+ *
+ * Merges the `.tempo.json` at the root of the directory's git repository
+ * over the global configuration and records where each value came from.
+ * Without a directory, or outside a git repository, only the global
+ * configuration applies.
+ */
+export async function getEffectiveConfig(
+  directory?: string,
+): Promise<EffectiveConfig> {
+  const globalConfig = await getConfig();
+  const globalConfigPath = await getConfigPath();
+  const rootDirectory = directory ? findGitRoot(directory) : null;
+  const projectConfig = rootDirectory ? loadProjectConfig(rootDirectory) : null;
+
+  const merged: ConfigType = { ...globalConfig };
+  const sources = {} as Record<ProjectConfigKey, ConfigSource>;
+
+  for (const key of PROJECT_CONFIG_KEYS) {
+    // Empty strings are how the global store keeps unset optional values
+    if (globalConfig[key] === "") {
+      delete merged[key];
+    }
+
+    if (projectConfig && projectConfig[key] !== undefined) {
+      (merged as Record<string, unknown>)[key] = projectConfig[key];
+      sources[key] = "project";
+    } else if (
+      merged[key] === undefined ||
+      JSON.stringify(merged[key]) === JSON.stringify(configDefaults[key])
+    ) {
+      sources[key] = "default";
+    } else {
+      sources[key] = "global";
+    }
+  }
+
+  return {
+    config: merged,
+    sources,
+    globalConfigPath,
+    projectConfigPath:
+      projectConfig && rootDirectory
+        ? getProjectConfigPath(rootDirectory)
+        : undefined,
+  };
+}
+
 /**
  * Update configuration with partial updates
  */
@@ -100,6 +383,19 @@ export async function updateConfig(
   return config.store;
 }
 
+/**
+ * Remember the numeric ID of a Jira issue key
+ */
+export async function cacheIssueKey(
+  issueKey: string,
+  issueId: number,
+): Promise<void> {
+  const { issueKeyCache } = await getConfig();
+  await updateConfig({
+    issueKeyCache: { ...issueKeyCache, [issueKey]: issueId },
+  });
+}
+
 /**
  * Get the full activity log
  */
@@ -149,6 +445,31 @@ export async function updateActivityLog(
   return activityLog[index];
 }
 
+/**
+ * Remove an entry from the activity log
+ */
+export async function removeActivityLog(id: string): Promise<void> {
+  await removeActivityLogs([id]);
+}
+
+/**
+ * Remove several entries from the activity log
+ */
+export async function removeActivityLogs(ids: string[]): Promise<void> {
+  const { activityLog } = await getConfig();
+  const missingId = ids.find(
+    (id) => !activityLog.some((activity) => activity.id === id),
+  );
+
+  if (missingId) {
+    throw new Error(`Activity with ID ${missingId} not found`);
+  }
+
+  await updateConfig({
+    activityLog: activityLog.filter((activity) => !ids.includes(activity.id)),
+  });
+}
+
 /**
  * Clear all activity log entries
  */
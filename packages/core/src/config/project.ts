@@ -0,0 +1,86 @@
+/**
+ * Per-repository project configuration for Tempo CLI
+ *
+ * Handles loading the `.tempo.json` file stored at the root of a git
+ * repository, whose values take precedence over the global configuration.
+ */
+
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+
+// Name of the project configuration file at the repository root
+export const PROJECT_CONFIG_FILE = ".tempo.json";
+
+// A branch rule maps branches (and optionally repositories) to an issue, or
+// excludes them from tracking
+export const branchRuleSchema = z
+  .object({
+    branch: z.string().optional(),
+    repository: z.string().optional(),
+    issue: z.union([z.string(), z.number()]).optional(),
+    ignore: z.boolean().optional(),
+  })
+  .strict()
+  .refine((rule) => (rule.issue !== undefined) !== (rule.ignore === true), {
+    message: 'A rule needs either an "issue" or "ignore": true',
+  });
+
+export type BranchRule = z.infer<typeof branchRuleSchema>;
+
+// Define the project configuration schema using Zod
+const projectConfigSchema = z
+  .object({
+    idleTimeoutMinutes: z.number().min(0).optional(),
+    branchIssuePattern: z.string().optional(),
+    defaultIssue: z.string().optional(),
+    ignoredBranches: z.array(z.string()).optional(),
+    branchRules: z.array(branchRuleSchema).optional(),
+    descriptionTemplate: z.string().optional(),
+  })
+  .strict();
+
+export type ProjectConfig = z.infer<typeof projectConfigSchema>;
+export type ProjectConfigKey = keyof ProjectConfig;
+
+// Configuration keys that can be set per repository
+export const PROJECT_CONFIG_KEYS = Object.keys(
+  projectConfigSchema.shape,
+) as ProjectConfigKey[];
+
+/**
+ * Get the path of the project configuration file of a repository
+ */
+export function getProjectConfigPath(rootDirectory: string): string {
+  return path.join(rootDirectory, PROJECT_CONFIG_FILE);
+}
+
+/**
+ * Load the project configuration of a repository
+ *
+ * Returns null if the repository has no `.tempo.json`.
+ */
+export function loadProjectConfig(rootDirectory: string): ProjectConfig | null {
+  const configPath = getProjectConfigPath(rootDirectory);
+
+  if (!fs.existsSync(configPath)) {
+    return null;
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(configPath, "utf8"));
+  } catch (error: any) {
+    throw new Error(`Failed to read ${configPath}: ${error.message}`);
+  }
+
+  const result = projectConfigSchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join(".") || "root"}: ${issue.message}`)
+      .join(", ");
+    throw new Error(`Invalid ${configPath}: ${issues}`);
+  }
+
+  return result.data;
+}
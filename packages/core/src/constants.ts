@@ -6,8 +6,22 @@
 export const PORT = 39587; // A random port that's unlikely to be in use
 export const SERVER_URL = `http://127.0.0.1:${PORT}`;
 export const REQUEST_TIMEOUT_MS = 3000;
+export const SYNC_REQUEST_TIMEOUT_MS = 2 * 60 * 1000; // Syncing several days takes a while
 
 // Server constants
 export const SERVER_PULSE_INTERVAL_MS = 60 * 1000; // 1 minute
 export const IDLE_CHECK_INTERVAL_MS = 60 * 1000; // 1 minute
 export const BRANCH_CHECK_INTERVAL_MS = 60 * 1000; // 1 minute
+export const HOOK_BRANCH_CHECK_INTERVAL_MS = 15 * 60 * 1000; // 15 minutes, for repositories with git hooks
+
+// Tracking constants
+export const DEFAULT_BRANCH_ISSUE_PATTERN = "([A-Z][A-Z0-9_]*-\\d+)"; // e.g. feature/ABC-482-fix-login
+export const DEFAULT_DESCRIPTION_TEMPLATE = "{commits}"; // Commit subjects of the session
+
+// Sync constants
+export const DUPLICATE_DURATION_TOLERANCE = 0.25; // Durations within 25% of each other are similar
+export const SYNC_RETRY_INTERVAL_MS = 60 * 1000; // 1 minute, how often the daemon retries the outbox
+export const AUTO_SYNC_CHECK_INTERVAL_MS = 60 * 1000; // 1 minute, how often the daemon checks the auto-sync schedule
+export const SYNC_RETRY_BASE_MS = 30 * 1000; // 30 seconds, doubled with every failed attempt
+export const SYNC_RETRY_MAX_MS = 60 * 60 * 1000; // 1 hour
+export const TEMPO_PAGE_SIZE = 1000; // Worklogs per Tempo API request
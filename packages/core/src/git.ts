@@ -8,6 +8,40 @@ import simpleGit from "simple-git";
 import path from "path";
 import fs from "fs";
 
+/**
+ * Where a working tree keeps its git data
+ *
+ * Linked worktrees and submodules have a `.git` file pointing at their git
+ * directory instead of a `.git` directory. All worktrees of a repository
+ * share its common git directory, which identifies the repository.
+ */
+export interface GitRepositoryInfo {
+  root: string; // Root of the working tree
+  gitDir: string; // Git directory of the working tree
+  commonDir: string; // Git directory shared by all worktrees
+  repository: string; // Canonical path of the repository, its main working tree if it has one
+  isWorktree: boolean; // A linked worktree rather than the main working tree
+  isSubmodule: boolean;
+}
+
+/**
+ * A commit made by the user
+ */
+export interface GitCommit {
+  hash: string;
+  date: Date; // Author date
+  subject: string;
+}
+
+/**
+ * A branch switch recorded in the reflog of HEAD
+ */
+export interface GitCheckout {
+  date: Date;
+  from: string;
+  to: string;
+}
+
 /**
  * Check if a directory is a git repository
  */
@@ -47,7 +81,7 @@ export async function getRepositoryName(directory: string): Promise<string> {
 
     if (remotes.length === 0) {
       // No remote, use directory name
-      return path.basename(directory);
+      return getLocalRepositoryName(directory);
     }
 
     // Find origin or first remote
@@ -55,21 +89,165 @@ export async function getRepositoryName(directory: string): Promise<string> {
 
     // Extract repo name from URL
     const match = remote.refs.fetch.match(/([^\/]+)(?:\.git)?$/);
-    return match ? match[1] : path.basename(directory);
+    return match ? match[1] : getLocalRepositoryName(directory);
+  } catch (error) {
+    return getLocalRepositoryName(directory);
+  }
+}
+
+/**
+ * Name a repository without a remote after its canonical path, so that all
+ * of its worktrees get the same name
+ */
+function getLocalRepositoryName(directory: string): string {
+  const repository = getGitRepositoryInfo(directory)?.repository ?? directory;
+  return path.basename(repository).replace(/\.git$/, "");
+}
+
+/**
+ * Get the subjects of the commits made on a branch in a time range
+ *
+ * Only includes commits by the repository's configured user, oldest first.
+ * Returns an empty list if the repository can't be inspected.
+ */
+export async function getCommitSubjects(
+  directory: string,
+  branch: string,
+  since: Date,
+  until: Date,
+): Promise<string[]> {
+  try {
+    const git = simpleGit(directory);
+    const { value: email } = await git.getConfig("user.email");
+
+    const output = await git.raw([
+      "log",
+      branch,
+      "--no-merges",
+      "--reverse",
+      "--format=%s",
+      `--since=${since.toISOString()}`,
+      `--until=${until.toISOString()}`,
+      ...(email ? [`--author=${email}`] : []),
+    ]);
+
+    return output
+      .split("\n")
+      .map((subject) => subject.trim())
+      .filter((subject) => subject.length > 0);
+  } catch (error) {
+    return [];
+  }
+}
+
+/**
+ * Get the commits the repository's configured user authored in a time range
+ *
+ * Looks at all branches and returns the commits oldest first. Returns an
+ * empty list if the repository can't be inspected.
+ */
+export async function getAuthoredCommits(
+  directory: string,
+  since: Date,
+  until: Date,
+): Promise<GitCommit[]> {
+  try {
+    const git = simpleGit(directory);
+    const { value: email } = await git.getConfig("user.email");
+
+    const output = await git.raw([
+      "log",
+      "--all",
+      "--no-merges",
+      "--format=%H%x09%aI%x09%s",
+      `--since=${since.toISOString()}`,
+      ...(email ? [`--author=${email}`] : []),
+    ]);
+
+    return output
+      .split("\n")
+      .filter((line) => line.length > 0)
+      .map((line) => {
+        const [hash, date, ...subject] = line.split("\t");
+        return { hash, date: new Date(date), subject: subject.join("\t") };
+      })
+      .filter((commit) => commit.date >= since && commit.date < until)
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  } catch (error) {
+    return [];
+  }
+}
+
+/**
+ * Get the branch switches recorded in the reflog of HEAD, oldest first
+ *
+ * Returns an empty list if the repository can't be inspected.
+ */
+export async function getCheckouts(directory: string): Promise<GitCheckout[]> {
+  try {
+    const git = simpleGit(directory);
+    const output = await git.raw([
+      "reflog",
+      "show",
+      "--date=unix",
+      "--format=%gd%x09%gs",
+      "HEAD",
+    ]);
+
+    const checkouts: GitCheckout[] = [];
+    for (const line of output.split("\n")) {
+      const match = line.match(
+        /^[^@]+@\{(\d+)\}\tcheckout: moving from (\S+) to (\S+)$/,
+      );
+
+      if (match) {
+        checkouts.push({
+          date: new Date(parseInt(match[1], 10) * 1000),
+          from: match[2],
+          to: match[3],
+        });
+      }
+    }
+
+    return checkouts.reverse();
   } catch (error) {
-    return path.basename(directory);
+    return [];
+  }
+}
+
+/**
+ * Get the git directory of a working tree root
+ *
+ * Follows the `gitdir:` line of the `.git` file of worktrees and
+ * submodules. Returns null if the directory isn't a working tree root.
+ */
+function readGitDir(directory: string): string | null {
+  const dotGit = path.join(directory, ".git");
+
+  try {
+    if (fs.statSync(dotGit).isDirectory()) {
+      return dotGit;
+    }
+
+    const match = fs.readFileSync(dotGit, "utf8").match(/^gitdir:\s*(.+)$/m);
+    return match ? path.resolve(directory, match[1].trim()) : null;
+  } catch (error) {
+    return null;
   }
 }
 
 /**
  * Find the root directory of a git repository
+ *
+ * This is the root of the working tree the directory is in, which for a
+ * linked worktree or a submodule is the worktree or submodule itself.
  */
 export function findGitRoot(startDirectory: string): string | null {
-  let currentDir = startDirectory;
+  let currentDir = path.resolve(startDirectory);
 
-  // Traverse up until we find .git directory or hit root
+  // Traverse up until we find a .git directory or file, or hit root
   while (currentDir !== path.parse(currentDir).root) {
-    if (fs.existsSync(path.join(currentDir, ".git"))) {
+    if (readGitDir(currentDir)) {
       return currentDir;
     }
     currentDir = path.dirname(currentDir);
@@ -77,3 +255,92 @@ export function findGitRoot(startDirectory: string): string | null {
 
   return null;
 }
+
+/**
+ * Get where the working tree of a directory keeps its git data, and which
+ * repository it belongs to
+ */
+export function getGitRepositoryInfo(
+  directory: string,
+): GitRepositoryInfo | null {
+  const root = findGitRoot(directory);
+  const gitDir = root ? readGitDir(root) : null;
+
+  if (!root || !gitDir) {
+    return null;
+  }
+
+  // Linked worktrees point at the shared git directory in `commondir`
+  let commonDir = gitDir;
+  try {
+    const commonDirPath = fs
+      .readFileSync(path.join(gitDir, "commondir"), "utf8")
+      .trim();
+    commonDir = path.resolve(gitDir, commonDirPath);
+  } catch (error) {
+    // Main working trees and submodules have no commondir file
+  }
+
+  const isWorktree = commonDir !== gitDir;
+  const isSubmodule = commonDir.includes(
+    `${path.sep}.git${path.sep}modules${path.sep}`,
+  );
+
+  let repository = commonDir;
+  if (path.basename(commonDir) === ".git") {
+    repository = path.dirname(commonDir);
+  } else if (isSubmodule) {
+    // The git directory of a submodule records its main working tree
+    try {
+      const config = fs.readFileSync(path.join(commonDir, "config"), "utf8");
+      const worktree = config.match(/^\s*worktree\s*=\s*(.+)$/m);
+      repository = worktree
+        ? path.resolve(commonDir, worktree[1].trim())
+        : root;
+    } catch (error) {
+      repository = root;
+    }
+  }
+
+  return { root, gitDir, commonDir, repository, isWorktree, isSubmodule };
+}
+
+/**
+ * Get the time of the most recent activity in a git repository
+ *
+ * Looks at the modification times of the files git touches on commits,
+ * checkouts and staging, as well as every changed file in the working tree.
+ * Returns null if the repository can't be inspected.
+ */
+export async function getLastRepositoryActivity(
+  directory: string,
+): Promise<Date | null> {
+  try {
+    const git = simpleGit(directory);
+    const gitDir = await git.revparse(["--absolute-git-dir"]);
+    const status = await git.status();
+
+    const candidates = [
+      path.join(gitDir, "HEAD"),
+      path.join(gitDir, "index"),
+      path.join(gitDir, "logs", "HEAD"),
+      ...status.files.map((file) => path.join(directory, file.path)),
+    ];
+
+    let latest: number | null = null;
+    for (const candidate of candidates) {
+      try {
+        const { mtimeMs } = await fs.promises.stat(candidate);
+        if (latest === null || mtimeMs > latest) {
+          latest = mtimeMs;
+        }
+      } catch (error) {
+        // Deleted files and missing reflogs have no modification time
+      }
+    }
+
+    return latest === null ? null : new Date(latest);
+  } catch (error) {
+    return null;
+  }
+}
@@ -0,0 +1,342 @@
+/**
+ * Git hook management for Tempo CLI
+ *
+ * Installs hooks that tell the daemon about checkouts, commits and merges
+ * as they happen, next to any hooks that are already there
+ */
+
+import simpleGit from "simple-git";
+import path from "path";
+import os from "os";
+import fs from "fs";
+
+// Hooks that notify the daemon
+export const GIT_HOOKS = [
+  "post-checkout",
+  "post-commit",
+  "post-merge",
+] as const;
+export type GitHookName = (typeof GIT_HOOKS)[number];
+
+// Shells that can run the Tempo part of a hook script
+const SHELL_SHEBANG_PATTERN =
+  /^#!\s*(?:\/usr)?\/bin\/(?:env\s+)?(?:sh|bash|dash|ksh|zsh)(?:\s|$)/;
+
+// Hooks directory used when installing globally without core.hooksPath
+export const GLOBAL_HOOKS_DIRECTORY = path.join(
+  os.homedir(),
+  ".tempo-tracker",
+  "hooks",
+);
+
+// Markers around the part of a hook script that belongs to Tempo
+const HOOK_START_MARKER = "# >>> tempo-tracker >>>";
+const HOOK_END_MARKER = "# <<< tempo-tracker <<<";
+const HOOK_BLOCK_PATTERN = new RegExp(
+  `\\n?${HOOK_START_MARKER}[\\s\\S]*?${HOOK_END_MARKER}\\n?`,
+);
+
+/**
+ * What happened to a hook script
+ */
+export type HookChange = "created" | "updated" | "unchanged" | "removed";
+
+/**
+ * Result of installing or uninstalling the hooks
+ */
+export interface HookInstallation {
+  hooksDirectory: string;
+  changes: Record<GitHookName, HookChange>;
+}
+
+/**
+ * Render the part of a hook script that belongs to Tempo
+ *
+ * Hooks in the global directory also run the repository's own hook, since
+ * git skips it once core.hooksPath is set. Worktrees share the hooks of
+ * their main repository.
+ */
+function renderHookBlock(
+  hook: string,
+  options: { notify: boolean; runLocalHook: boolean },
+): string {
+  const lines = [HOOK_START_MARKER];
+
+  if (options.notify) {
+    lines.push(
+      "# Tell the tempo daemon about the change without slowing git down",
+      "if command -v tempo >/dev/null 2>&1; then",
+      `  (tempo hooks notify ${hook} </dev/null >/dev/null 2>&1 &)`,
+      "fi",
+    );
+  }
+
+  if (options.runLocalHook) {
+    lines.push(
+      `local_hook="$(git rev-parse --git-common-dir)/hooks/${hook}"`,
+      'if [ -x "$local_hook" ]; then',
+      '  "$local_hook" "$@" || exit $?',
+      "fi",
+    );
+  }
+
+  lines.push(HOOK_END_MARKER);
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Get the names of the hooks git would run from a hooks directory
+ *
+ * Sample hooks and scripts that aren't executable are left out.
+ */
+function getExistingHooks(hooksDirectory: string): string[] {
+  if (!fs.existsSync(hooksDirectory)) {
+    return [];
+  }
+
+  return fs.readdirSync(hooksDirectory).filter((name) => {
+    const stat = fs.statSync(path.join(hooksDirectory, name));
+    return stat.isFile() && !name.endsWith(".sample") && !!(stat.mode & 0o111);
+  });
+}
+
+/**
+ * Check that an existing hook script can take the Tempo part
+ *
+ * The Tempo part is shell code, so it can only go into shell scripts.
+ */
+function assertShellHook(hooksDirectory: string, hook: string): void {
+  const hookPath = path.join(hooksDirectory, hook);
+
+  if (!fs.existsSync(hookPath)) {
+    return;
+  }
+
+  const [firstLine] = fs.readFileSync(hookPath, "utf8").split("\n", 1);
+  if (!SHELL_SHEBANG_PATTERN.test(firstLine)) {
+    throw new Error(
+      `${hookPath} is not a shell script. Add 'tempo hooks notify ${hook}' to it yourself, or make it a #!/bin/sh script.`,
+    );
+  }
+}
+
+/**
+ * Add the Tempo part to a hook script, creating the script if needed
+ *
+ * The Tempo part goes right after the shebang line, so it runs even if the
+ * rest of the script exits early.
+ */
+function installHook(
+  hooksDirectory: string,
+  hook: string,
+  options: { notify: boolean; runLocalHook: boolean },
+): HookChange {
+  const hookPath = path.join(hooksDirectory, hook);
+  const block = renderHookBlock(hook, options);
+
+  if (!fs.existsSync(hookPath)) {
+    fs.writeFileSync(hookPath, `#!/bin/sh\n${block}`, { mode: 0o755 });
+    return "created";
+  }
+
+  // Keep whatever else the script does
+  const content = fs.readFileSync(hookPath, "utf8");
+  const [shebang, ...rest] = content
+    .replace(HOOK_BLOCK_PATTERN, "\n")
+    .split("\n");
+  const body = rest.join("\n").replace(/^\n+/, "");
+  const updated = `${shebang}\n${block}${body}`;
+
+  if (updated === content) {
+    return "unchanged";
+  }
+
+  fs.writeFileSync(hookPath, updated);
+  fs.chmodSync(hookPath, 0o755);
+  return "updated";
+}
+
+/**
+ * Remove the Tempo part from a hook script
+ *
+ * Scripts that did nothing else are deleted.
+ */
+function uninstallHook(hooksDirectory: string, hook: string): HookChange {
+  const hookPath = path.join(hooksDirectory, hook);
+
+  if (!fs.existsSync(hookPath)) {
+    return "unchanged";
+  }
+
+  const content = fs.readFileSync(hookPath, "utf8");
+  if (!HOOK_BLOCK_PATTERN.test(content)) {
+    return "unchanged";
+  }
+
+  const remaining = content.replace(HOOK_BLOCK_PATTERN, "\n");
+  if (remaining.replace(/^#!.*$/m, "").trim() === "") {
+    fs.unlinkSync(hookPath);
+  } else {
+    fs.writeFileSync(hookPath, remaining.replace(/\n*$/, "\n"));
+  }
+
+  return "removed";
+}
+
+/**
+ * Get the hooks directory of a repository, honouring core.hooksPath
+ */
+export async function getHooksDirectory(directory: string): Promise<string> {
+  const git = simpleGit(directory);
+  const hooksPath = (
+    await git.raw(["rev-parse", "--git-path", "hooks"])
+  ).trim();
+  return path.resolve(directory, hooksPath);
+}
+
+/**
+ * Get the global core.hooksPath, if any
+ */
+async function getGlobalHooksPath(): Promise<string | null> {
+  try {
+    const hooksPath = (
+      await simpleGit().raw(["config", "--global", "--get", "core.hooksPath"])
+    ).trim();
+    return hooksPath ? hooksPath.replace(/^~(?=$|\/)/, os.homedir()) : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Install the hooks in a repository, or globally
+ *
+ * Globally, the hooks go into the directory of core.hooksPath. If it isn't
+ * set, it's only pointed at Tempo's own hooks directory with setHooksPath,
+ * since git then skips every repository's .git/hooks. Tempo's hooks run the
+ * repository's own hook, and so do scripts added for the other hooks of
+ * the given repository. Hooks that exist nowhere get no script, since the
+ * mere presence of some of them changes what git does.
+ */
+export async function installGitHooks(options: {
+  directory?: string;
+  global?: boolean;
+  setHooksPath?: boolean;
+}): Promise<HookInstallation> {
+  let hooksDirectory: string;
+  let setHooksPath = false;
+
+  if (options.global) {
+    const globalHooksPath = await getGlobalHooksPath();
+    hooksDirectory = globalHooksPath ?? GLOBAL_HOOKS_DIRECTORY;
+    setHooksPath = !globalHooksPath;
+
+    if (setHooksPath && !options.setHooksPath) {
+      throw new Error(
+        `core.hooksPath is not set. Installing globally points it at ${GLOBAL_HOOKS_DIRECTORY}, which makes git skip the hooks in every repository's .git/hooks. Tempo only runs them for ${GIT_HOOKS.join(", ")} and the hooks of the current repository. Confirm with --set-hooks-path, or install per repository.`,
+      );
+    }
+  } else if (options.directory) {
+    hooksDirectory = await getHooksDirectory(options.directory);
+  } else {
+    throw new Error("No repository given");
+  }
+
+  // Hooks to keep running once git only looks in Tempo's directory
+  const runLocalHook = hooksDirectory === GLOBAL_HOOKS_DIRECTORY;
+  const chainedHooks = new Set(
+    runLocalHook ? getExistingHooks(hooksDirectory) : [],
+  );
+  if (runLocalHook && options.directory) {
+    getExistingHooks(await getHooksDirectory(options.directory)).forEach(
+      (hook) => chainedHooks.add(hook),
+    );
+  }
+  GIT_HOOKS.forEach((hook) => chainedHooks.delete(hook));
+
+  if (
+    fs.existsSync(hooksDirectory) &&
+    !fs.statSync(hooksDirectory).isDirectory()
+  ) {
+    throw new Error(
+      `Git hooks are disabled: core.hooksPath points to ${hooksDirectory}`,
+    );
+  }
+
+  // Refuse before changing anything
+  GIT_HOOKS.forEach((hook) => assertShellHook(hooksDirectory, hook));
+
+  fs.mkdirSync(hooksDirectory, { recursive: true });
+
+  const changes = {} as Record<GitHookName, HookChange>;
+  for (const hook of GIT_HOOKS) {
+    changes[hook] = installHook(hooksDirectory, hook, {
+      notify: true,
+      runLocalHook,
+    });
+  }
+
+  for (const hook of chainedHooks) {
+    installHook(hooksDirectory, hook, { notify: false, runLocalHook });
+  }
+
+  if (setHooksPath) {
+    await simpleGit().raw([
+      "config",
+      "--global",
+      "core.hooksPath",
+      GLOBAL_HOOKS_DIRECTORY,
+    ]);
+  }
+
+  return { hooksDirectory, changes };
+}
+
+/**
+ * Uninstall the hooks from a repository, or globally
+ *
+ * Globally, core.hooksPath is unset again if it points at Tempo's own hooks
+ * directory and nothing else is left in there.
+ */
+export async function uninstallGitHooks(options: {
+  directory?: string;
+  global?: boolean;
+}): Promise<HookInstallation> {
+  let hooksDirectory: string;
+
+  if (options.global) {
+    const globalHooksPath = await getGlobalHooksPath();
+    if (!globalHooksPath) {
+      throw new Error(
+        "No global hooks are installed (core.hooksPath is not set)",
+      );
+    }
+    hooksDirectory = globalHooksPath;
+  } else if (options.directory) {
+    hooksDirectory = await getHooksDirectory(options.directory);
+  } else {
+    throw new Error("No repository given");
+  }
+
+  const changes = {} as Record<GitHookName, HookChange>;
+  for (const hook of GIT_HOOKS) {
+    changes[hook] = uninstallHook(hooksDirectory, hook);
+  }
+
+  if (hooksDirectory === GLOBAL_HOOKS_DIRECTORY) {
+    getExistingHooks(hooksDirectory).forEach((hook) =>
+      uninstallHook(hooksDirectory, hook),
+    );
+  }
+
+  if (
+    options.global &&
+    hooksDirectory === GLOBAL_HOOKS_DIRECTORY &&
+    fs.readdirSync(hooksDirectory).length === 0
+  ) {
+    await simpleGit().raw(["config", "--global", "--unset", "core.hooksPath"]);
+    fs.rmdirSync(hooksDirectory);
+  }
+
+  return { hooksDirectory, changes };
+}
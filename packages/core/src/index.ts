@@ -5,7 +5,15 @@
  */
 
 // Core business logic
+export * from "./activity";
+export * from "./autosync";
 export * from "./git";
+export * from "./hooks";
+export * from "./jira";
+export * from "./outbox";
+export * from "./reconstruct";
+export * from "./remote";
+export * from "./rules";
 export * from "./tempo";
 export * from "./tracking";
 export * from "./worklog";
@@ -19,5 +27,6 @@ export * from "./constants";
 // Utilities
 export * from "./utils/format";
 export * from "./utils/debug";
+export * from "./utils/match";
 
 // No re-exports of external dependencies
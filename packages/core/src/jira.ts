@@ -0,0 +1,163 @@
+/**
+ * Jira API integration for Tempo CLI
+ *
+ * Resolves human-readable issue keys (e.g. PROJECT-123) to the numeric
+ * issue IDs required by the Tempo API
+ */
+
+import axios from "axios";
+import { cacheIssueKey, getConfig } from "./config";
+
+/**
+ * Jira issue interface
+ */
+export interface JiraIssue {
+  id: number;
+  key: string;
+  summary?: string;
+}
+
+/**
+ * Reference to a Jira issue given by the user, by key or numeric ID
+ */
+export interface IssueReference {
+  issueId?: number;
+  issueKey?: string;
+}
+
+/**
+ * Check if a string looks like a Jira issue key
+ */
+export function isIssueKey(value: string): boolean {
+  return /^[A-Z][A-Z0-9_]*-\d+$/.test(value);
+}
+
+/**
+ * Parse an issue key or numeric issue ID given by the user
+ */
+export function parseIssueReference(value: string): IssueReference {
+  const trimmed = value.trim();
+
+  if (/^\d+$/.test(trimmed)) {
+    return { issueId: parseInt(trimmed, 10) };
+  }
+
+  const issueKey = trimmed.toUpperCase();
+  if (isIssueKey(issueKey)) {
+    return { issueKey };
+  }
+
+  throw new Error(
+    `Invalid issue "${value}". Use a Jira issue key (e.g. PROJECT-123) or a numeric issue ID.`,
+  );
+}
+
+/**
+ * Fetch an issue from the Jira REST API
+ */
+export async function getJiraIssue(
+  issueKeyOrId: string,
+  jiraBaseUrl: string,
+  jiraEmail: string,
+  jiraApiToken: string,
+): Promise<JiraIssue> {
+  if (!jiraBaseUrl) throw new Error("Jira base URL not provided");
+  if (!jiraEmail || !jiraApiToken) {
+    throw new Error("Jira credentials not provided");
+  }
+
+  try {
+    const response = await axios.get(
+      `${jiraBaseUrl.replace(/\/+$/, "")}/rest/api/3/issue/${encodeURIComponent(
+        issueKeyOrId,
+      )}`,
+      {
+        params: { fields: "summary" },
+        auth: { username: jiraEmail, password: jiraApiToken },
+        headers: { Accept: "application/json" },
+      },
+    );
+
+    return {
+      id: parseInt(response.data.id, 10),
+      key: response.data.key,
+      summary: response.data.fields?.summary,
+    };
+  } catch (error: any) {
+    if (error.response?.status === 404) {
+      throw new Error(`Jira issue ${issueKeyOrId} not found`);
+    }
+    if (error.response?.status === 401 || error.response?.status === 403) {
+      throw new Error(
+        `Not allowed to read Jira issue ${issueKeyOrId}. Check your Jira credentials.`,
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Resolve a Jira issue key to its numeric ID
+ *
+ * Uses the local key→ID cache first and only asks Jira on a cache miss.
+ */
+export async function resolveIssueKey(issueKey: string): Promise<number> {
+  const config = await getConfig();
+  const cachedId = config.issueKeyCache[issueKey];
+
+  if (cachedId) {
+    return cachedId;
+  }
+
+  if (!config.jiraBaseUrl || !config.jiraEmail || !config.jiraApiToken) {
+    throw new Error(
+      `Cannot resolve issue ${issueKey}: Jira is not configured. Set it up with 'tempo config set-jira-base-url', 'tempo config set-jira-email' and 'tempo config set-jira-api-token'.`,
+    );
+  }
+
+  const issue = await getJiraIssue(
+    issueKey,
+    config.jiraBaseUrl,
+    config.jiraEmail,
+    config.jiraApiToken,
+  );
+  await cacheIssueKey(issue.key, issue.id);
+
+  return issue.id;
+}
+
+/**
+ * Find the key of a numeric issue ID in the local cache
+ */
+export async function findCachedIssueKey(
+  issueId: number,
+): Promise<string | undefined> {
+  const { issueKeyCache } = await getConfig();
+  return Object.keys(issueKeyCache).find(
+    (issueKey) => issueKeyCache[issueKey] === issueId,
+  );
+}
+
+/**
+ * Resolve an issue reference to both its numeric ID and, if known, its key
+ */
+export async function resolveIssueReference(
+  reference: IssueReference,
+): Promise<{ issueId: number; issueKey?: string }> {
+  if (reference.issueId) {
+    return {
+      issueId: reference.issueId,
+      issueKey:
+        reference.issueKey ?? (await findCachedIssueKey(reference.issueId)),
+    };
+  }
+
+  if (reference.issueKey) {
+    return {
+      issueId: await resolveIssueKey(reference.issueKey),
+      issueKey: reference.issueKey,
+    };
+  }
+
+  throw new Error("No issue provided");
+}
@@ -0,0 +1,146 @@
+/**
+ * Sync outbox for Tempo CLI
+ *
+ * Stores the worklog operations that still have to reach Tempo, so that
+ * operations failing while offline or rate limited are retried later
+ */
+
+import { getConfig, updateConfig } from "./config";
+import type { ConfigType } from "./config";
+import { SYNC_RETRY_BASE_MS, SYNC_RETRY_MAX_MS } from "./constants";
+
+/**
+ * A worklog operation waiting to be sent to Tempo
+ *
+ * - create: create a worklog for the activities
+ * - update: update the existing worklog of the activities
+ * - delete: delete a worklog whose activities were removed or moved
+ *
+ * Operations that failed permanently stay in the outbox, marked as failed,
+ * until the next sync replaces them.
+ */
+export type OutboxOperation = ConfigType["syncOutbox"][0];
+
+/**
+ * Get the operations in the outbox
+ */
+export async function getOutbox(): Promise<OutboxOperation[]> {
+  const { syncOutbox } = await getConfig();
+  return syncOutbox;
+}
+
+/**
+ * Check if an outbox operation is due to be sent
+ */
+export function isOperationDue(
+  operation: OutboxOperation,
+  now: Date = new Date(),
+): boolean {
+  return (
+    !operation.failed &&
+    (!operation.nextAttemptAt || new Date(operation.nextAttemptAt) <= now)
+  );
+}
+
+/**
+ * Add operations to the outbox
+ *
+ * Create and update operations replace queued operations for the same
+ * activities on the same day, since they were planned from newer data.
+ * Returns the queued operations.
+ */
+export async function enqueueOperations(
+  operations: Omit<OutboxOperation, "id" | "createdAt" | "attempts">[],
+): Promise<OutboxOperation[]> {
+  const createdAt = new Date().toISOString();
+  const queued = operations.map((operation) => ({
+    ...operation,
+    id: crypto.randomUUID(),
+    createdAt,
+    attempts: 0,
+  }));
+
+  const replaced = (existing: OutboxOperation) =>
+    queued.some((operation) =>
+      operation.type === "delete"
+        ? existing.type === "delete" &&
+          existing.tempoWorklogId === operation.tempoWorklogId
+        : existing.type !== "delete" &&
+          existing.date === operation.date &&
+          existing.activityIds.some((id) => operation.activityIds.includes(id)),
+    );
+
+  const outbox = await getOutbox();
+  await updateConfig({
+    syncOutbox: [
+      ...outbox.filter((existing) => !replaced(existing)),
+      ...queued,
+    ],
+  });
+
+  return queued;
+}
+
+/**
+ * Remove operations from the outbox
+ */
+export async function removeOperations(ids: string[]): Promise<void> {
+  const outbox = await getOutbox();
+  await updateConfig({
+    syncOutbox: outbox.filter((operation) => !ids.includes(operation.id)),
+  });
+}
+
+/**
+ * Update an operation in the outbox
+ */
+export async function updateOperation(
+  id: string,
+  updates: Partial<Omit<OutboxOperation, "id">>,
+): Promise<void> {
+  const outbox = await getOutbox();
+  await updateConfig({
+    syncOutbox: outbox.map((operation) =>
+      operation.id === id ? { ...operation, ...updates } : operation,
+    ),
+  });
+}
+
+/**
+ * Drop the queued create and update operations of activities that changed
+ *
+ * They were planned from the old activities; the next sync plans them
+ * again. Deletions are kept, since their worklogs must go either way.
+ */
+export async function discardQueuedOperations(
+  activityIds: string[],
+): Promise<void> {
+  const outbox = await getOutbox();
+  const remaining = outbox.filter(
+    (operation) =>
+      operation.type === "delete" ||
+      !operation.activityIds.some((id) => activityIds.includes(id)),
+  );
+
+  if (remaining.length !== outbox.length) {
+    await updateConfig({ syncOutbox: remaining });
+  }
+}
+
+/**
+ * Get the delay before the next attempt of an operation
+ *
+ * Doubles with every attempt, up to a maximum, but is never shorter than
+ * the delay Tempo asked for with Retry-After.
+ */
+export function getRetryDelayMs(
+  attempts: number,
+  retryAfterMs?: number,
+): number {
+  const backoff = Math.min(
+    SYNC_RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0),
+    SYNC_RETRY_MAX_MS,
+  );
+
+  return Math.max(backoff, retryAfterMs ?? 0);
+}
@@ -0,0 +1,249 @@
+/**
+ * Reconstruction of missed time from git history for Tempo CLI
+ *
+ * Proposes activity log entries for days nobody ran `tempo start`, based on
+ * the commits and branch switches recorded by git
+ */
+
+import { getActivityLog, getEffectiveConfig } from "./config";
+import type { ActivityLogEntry, ConfigType } from "./config";
+import { findOverlappingActivities } from "./activity";
+import { DEFAULT_DESCRIPTION_TEMPLATE } from "./constants";
+import {
+  GitCheckout,
+  getAuthoredCommits,
+  getCheckouts,
+  getCurrentBranch,
+  getGitRepositoryInfo,
+} from "./git";
+import { determineSessionIssue, evaluateBranch } from "./tracking";
+import { getDayRange, renderTemplate } from "./utils/format";
+
+/**
+ * Heuristics for estimating working time from git events
+ */
+export interface ReconstructionHeuristics {
+  leadTimeMinutes: number; // Work assumed before the first commit of a block
+  maxGapMinutes: number; // Longer gaps between events end a block of work
+}
+
+/**
+ * An activity log entry proposed from git history
+ */
+export interface ReconstructedActivity {
+  branch: string;
+  directory: string;
+  repository?: string;
+  startTime: string;
+  endTime: string;
+  issueId?: number;
+  issueKey?: string;
+  description?: string;
+  commits: string[];
+  overlaps: ActivityLogEntry[];
+}
+
+/**
+ * Result of reconstructing a day
+ */
+export interface Reconstruction {
+  activities: ReconstructedActivity[];
+  ignored: { branch: string; reason: string }[];
+}
+
+/**
+ * Something that happened in the repository on a branch
+ */
+interface GitEvent {
+  time: number;
+  branch: string;
+  subject?: string; // Commit subject; branch switches have none
+}
+
+/**
+ * Work on one branch, reconstructed from consecutive events
+ */
+interface WorkBlock {
+  branch: string;
+  start: number;
+  end: number;
+  commits: string[];
+}
+
+/**
+ * Get the reconstruction heuristics from the configuration
+ */
+export function getReconstructionHeuristics(
+  config: ConfigType,
+): ReconstructionHeuristics {
+  return {
+    leadTimeMinutes: config.reconstructionLeadMinutes,
+    maxGapMinutes: config.reconstructionGapMinutes,
+  };
+}
+
+/**
+ * Find the branch that was checked out at a point in time
+ */
+function getBranchAt(
+  time: number,
+  checkouts: GitCheckout[],
+  currentBranch: string,
+): string {
+  const previous = checkouts.filter(
+    (checkout) => checkout.date.getTime() <= time,
+  );
+  if (previous.length > 0) {
+    return previous[previous.length - 1].to;
+  }
+
+  const next = checkouts.find((checkout) => checkout.date.getTime() > time);
+  return next ? next.from : currentBranch;
+}
+
+/**
+ * Group git events into blocks of work on one branch
+ *
+ * A block starts the lead time before its first commit, or right at the
+ * branch switch it begins with, but never before the previous block's last
+ * event. It lasts until the next block starts, unless the gap to it is
+ * longer than the maximum gap, in which case it ends at its last event.
+ */
+function groupEvents(
+  events: GitEvent[],
+  heuristics: ReconstructionHeuristics,
+  dayStart: number,
+): WorkBlock[] {
+  const leadTimeMs = heuristics.leadTimeMinutes * 60 * 1000;
+  const maxGapMs = heuristics.maxGapMinutes * 60 * 1000;
+  const groups: GitEvent[][] = [];
+
+  for (const event of events) {
+    const group = groups[groups.length - 1];
+    const last = group?.[group.length - 1];
+
+    if (
+      last &&
+      last.branch === event.branch &&
+      event.time - last.time <= maxGapMs
+    ) {
+      group.push(event);
+    } else {
+      groups.push([event]);
+    }
+  }
+
+  const starts = groups.map((group, index) => {
+    const first = group[0];
+    const start =
+      first.subject === undefined ? first.time : first.time - leadTimeMs;
+    const previous = groups[index - 1];
+
+    return Math.max(
+      start,
+      previous ? previous[previous.length - 1].time : dayStart,
+    );
+  });
+
+  return groups
+    .map((group, index) => {
+      const lastTime = group[group.length - 1].time;
+      const nextStart = starts[index + 1];
+
+      return {
+        branch: group[0].branch,
+        start: starts[index],
+        end:
+          nextStart !== undefined && nextStart - lastTime <= maxGapMs
+            ? nextStart
+            : lastTime,
+        commits: group
+          .map((event) => event.subject)
+          .filter((subject): subject is string => subject !== undefined),
+      };
+    })
+    .filter((block) => block.end > block.start);
+}
+
+/**
+ * Propose activity log entries for a day from the git history of a
+ * repository
+ *
+ * Uses the commits of the configured git user and the branch switches in
+ * the reflog. Ignored branches are left out; the issue and description are
+ * determined the same way as for tracked sessions. Nothing is written to
+ * the activity log.
+ */
+export async function reconstructActivities(
+  directory: string,
+  date: string,
+  heuristics: ReconstructionHeuristics,
+  timeZone?: string,
+): Promise<Reconstruction> {
+  const { start, end } = getDayRange(date, timeZone);
+  const checkouts = await getCheckouts(directory);
+  const commits = await getAuthoredCommits(directory, start, end);
+  const currentBranch = await getCurrentBranch(directory);
+
+  const events: GitEvent[] = [
+    ...commits.map((commit) => ({
+      time: commit.date.getTime(),
+      branch: getBranchAt(commit.date.getTime(), checkouts, currentBranch),
+      subject: commit.subject,
+    })),
+    ...checkouts
+      .filter((checkout) => checkout.date >= start && checkout.date < end)
+      .map((checkout) => ({
+        time: checkout.date.getTime(),
+        branch: checkout.to,
+      })),
+  ].sort((a, b) => a.time - b.time);
+
+  const { config } = await getEffectiveConfig(directory);
+  const activityLog = await getActivityLog();
+  const reconstruction: Reconstruction = { activities: [], ignored: [] };
+
+  for (const block of groupEvents(events, heuristics, start.getTime())) {
+    const evaluation = await evaluateBranch(directory, block.branch);
+    if (evaluation.ignoreReason) {
+      reconstruction.ignored.push({
+        branch: block.branch,
+        reason: evaluation.ignoreReason,
+      });
+      continue;
+    }
+
+    const { issueId, issueKey } = await determineSessionIssue(
+      block.branch,
+      {},
+      config,
+      evaluation.rule,
+    );
+    const startTime = new Date(block.start).toISOString();
+    const endTime = new Date(Math.min(block.end, end.getTime())).toISOString();
+
+    reconstruction.activities.push({
+      branch: block.branch,
+      directory,
+      repository: getGitRepositoryInfo(directory)?.repository,
+      startTime,
+      endTime,
+      issueId,
+      issueKey,
+      description:
+        renderTemplate(
+          config.descriptionTemplate ?? DEFAULT_DESCRIPTION_TEMPLATE,
+          {
+            branch: block.branch,
+            issueKey,
+            repo: evaluation.repository,
+            commits: block.commits.join("; "),
+          },
+        ) || undefined,
+      commits: block.commits,
+      overlaps: findOverlappingActivities(activityLog, startTime, endTime),
+    });
+  }
+
+  return reconstruction;
+}
@@ -0,0 +1,251 @@
+/**
+ * Remote worklogs for Tempo CLI
+ *
+ * Keeps a local copy of the worklogs in Tempo, including the ones logged
+ * from the Tempo web UI or other tools, and compares them with the
+ * activity log
+ */
+
+import { getActivityLog, getConfig, updateConfig } from "./config";
+import type { ActivityLogEntry, ConfigType } from "./config";
+import { splitActivityByDay } from "./activity";
+import { findCachedIssueKey, parseIssueReference } from "./jira";
+import { getWorklogsForUser } from "./tempo";
+import { formatLocalDate, getDayRange } from "./utils/format";
+
+/**
+ * A worklog pulled from Tempo
+ */
+export type RemoteWorklog = ConfigType["remoteWorklogs"][0];
+
+/**
+ * The part of a local entry on one day that Tempo has no worklog for
+ *
+ * - unsynced: the entry wasn't synced yet
+ * - deleted: the entry was synced, but its worklog is gone from Tempo
+ */
+export interface MissingRemoteWorklog {
+  activity: ActivityLogEntry; // The part of the entry on the day
+  date: string; // YYYY-MM-DD
+  reason: "unsynced" | "deleted";
+}
+
+/**
+ * Differences between the activity log and the worklogs in Tempo
+ */
+export interface WorklogDiff {
+  missingRemotely: MissingRemoteWorklog[];
+  missingLocally: RemoteWorklog[]; // Worklogs with no local entry
+  matched: number; // Local entries found in Tempo
+}
+
+/**
+ * Check that a range of days is valid
+ */
+function assertDateRange(from: string, to: string): void {
+  // Throws on invalid dates
+  getDayRange(from);
+  getDayRange(to);
+
+  if (from > to) {
+    throw new Error(`Start date ${from} is after end date ${to}`);
+  }
+}
+
+/**
+ * Pull the worklogs of a user between two days (inclusive) from Tempo
+ *
+ * Replaces the cached worklogs of those days, so worklogs deleted in Tempo
+ * disappear from the cache too. Returns the pulled worklogs.
+ */
+export async function pullRemoteWorklogs(
+  from: string,
+  to: string,
+  authorAccountId: string,
+  apiKey: string,
+  tempoBaseUrl: string,
+): Promise<RemoteWorklog[]> {
+  assertDateRange(from, to);
+
+  const pulledAt = new Date().toISOString();
+  const pulled: RemoteWorklog[] = [];
+
+  for (const worklog of await getWorklogsForUser(
+    authorAccountId,
+    from,
+    to,
+    apiKey,
+    tempoBaseUrl,
+  )) {
+    pulled.push({
+      tempoWorklogId: worklog.tempoWorklogId,
+      issueId: worklog.issue.id,
+      issueKey: await findCachedIssueKey(worklog.issue.id),
+      startDate: worklog.startDate,
+      startDateTimeUtc: worklog.startDateTimeUtc,
+      timeSpentSeconds: worklog.timeSpentSeconds,
+      description: worklog.description,
+      updatedAt: worklog.updatedAt,
+      pulledAt,
+    });
+  }
+
+  const { remoteWorklogs } = await getConfig();
+  await updateConfig({
+    remoteWorklogs: [
+      ...remoteWorklogs.filter(
+        (worklog) => worklog.startDate < from || worklog.startDate > to,
+      ),
+      ...pulled,
+    ].sort((a, b) => a.startDateTimeUtc.localeCompare(b.startDateTimeUtc)),
+  });
+
+  return pulled;
+}
+
+/**
+ * Get the cached Tempo worklogs, optionally only those between two days
+ * (inclusive)
+ */
+export async function getRemoteWorklogs(
+  range: { from?: string; to?: string } = {},
+): Promise<RemoteWorklog[]> {
+  const { remoteWorklogs } = await getConfig();
+  return remoteWorklogs.filter(
+    (worklog) =>
+      (!range.from || worklog.startDate >= range.from) &&
+      (!range.to || worklog.startDate <= range.to),
+  );
+}
+
+/**
+ * Select the cached worklogs on a day or on an issue
+ */
+export async function filterRemoteWorklogs(
+  worklogs: RemoteWorklog[],
+  filters: { date?: string; issue?: string },
+): Promise<RemoteWorklog[]> {
+  let filtered = filters.date
+    ? worklogs.filter((worklog) => worklog.startDate === filters.date)
+    : worklogs;
+
+  if (filters.issue) {
+    const issue = parseIssueReference(filters.issue);
+    const { issueKeyCache } = await getConfig();
+    const issueId =
+      issue.issueId ?? (issue.issueKey ? issueKeyCache[issue.issueKey] : 0);
+
+    filtered = filtered.filter(
+      (worklog) =>
+        (!!issue.issueKey && worklog.issueKey === issue.issueKey) ||
+        (!!issueId && worklog.issueId === issueId),
+    );
+  }
+
+  return filtered;
+}
+
+/**
+ * Check if a cached worklog books the time of a local entry: it is on the
+ * same issue and overlaps it
+ */
+function overlapsWorklog(
+  activity: ActivityLogEntry,
+  worklog: RemoteWorklog,
+): boolean {
+  const sameIssue =
+    (!!activity.issueId && activity.issueId === worklog.issueId) ||
+    (!!activity.issueKey && activity.issueKey === worklog.issueKey);
+  const start = new Date(worklog.startDateTimeUtc).getTime();
+  const end = start + worklog.timeSpentSeconds * 1000;
+
+  return (
+    sameIssue &&
+    new Date(activity.startTime).getTime() < end &&
+    new Date(activity.endTime!).getTime() > start
+  );
+}
+
+/**
+ * Compare local entries with Tempo worklogs, on the days between two days
+ * (inclusive) or on every day
+ *
+ * Entries are matched by the Tempo worklog they were synced to. Entries
+ * synced by older versions, or booked by other tools, match a worklog on the
+ * same issue that overlaps them. Unfinished entries are left out.
+ */
+export function compareWorklogs(
+  activities: ActivityLogEntry[],
+  remote: RemoteWorklog[],
+  timeZone?: string,
+  range: { from?: string; to?: string } = {},
+): WorklogDiff {
+  const remoteIds = new Set(remote.map((worklog) => worklog.tempoWorklogId));
+  const matchedIds = new Set<number>();
+  const diff: WorklogDiff = {
+    missingRemotely: [],
+    missingLocally: [],
+    matched: 0,
+  };
+
+  for (const activity of activities) {
+    if (!activity.endTime) {
+      continue;
+    }
+
+    for (const part of splitActivityByDay(activity, timeZone)) {
+      const date = formatLocalDate(new Date(part.startTime), timeZone);
+      if (
+        (range.from && date < range.from) ||
+        (range.to && date > range.to) ||
+        activity.droppedDates?.includes(date)
+      ) {
+        continue;
+      }
+
+      const linkedId = activity.tempoWorklogIds?.[date];
+      const match =
+        linkedId !== undefined && remoteIds.has(linkedId)
+          ? linkedId
+          : remote.find((worklog) => overlapsWorklog(part, worklog))
+              ?.tempoWorklogId;
+
+      if (match !== undefined) {
+        matchedIds.add(match);
+        diff.matched++;
+      } else {
+        diff.missingRemotely.push({
+          activity: part,
+          date,
+          reason:
+            linkedId !== undefined || activity.synced ? "deleted" : "unsynced",
+        });
+      }
+    }
+  }
+
+  diff.missingLocally = remote.filter(
+    (worklog) => !matchedIds.has(worklog.tempoWorklogId),
+  );
+
+  return diff;
+}
+
+/**
+ * Compare the activity log with the cached Tempo worklogs between two days
+ * (inclusive)
+ */
+export async function diffWorklogs(
+  from: string,
+  to: string,
+  timeZone?: string,
+): Promise<WorklogDiff> {
+  assertDateRange(from, to);
+
+  return compareWorklogs(
+    await getActivityLog(),
+    await getRemoteWorklogs({ from, to }),
+    timeZone,
+    { from, to },
+  );
+}
@@ -0,0 +1,51 @@
+/**
+ * Branch rules for Tempo CLI
+ *
+ * Evaluates the configured rule table that maps branches and repositories
+ * to issues, or excludes them from tracking
+ */
+
+import type { BranchRule } from "./config";
+import { matchesPattern } from "./utils/match";
+
+/**
+ * A rule that matched a branch, with its position in the rule table
+ */
+export interface BranchRuleMatch {
+  rule: BranchRule;
+  index: number;
+}
+
+/**
+ * Find the first rule that matches a branch and repository
+ *
+ * Rules are evaluated in order. A rule without a branch or repository
+ * pattern matches any branch or repository, so a rule with neither acts as
+ * a catch-all.
+ */
+export function findBranchRule(
+  rules: BranchRule[],
+  target: { branch: string; repository: string },
+): BranchRuleMatch | undefined {
+  const index = rules.findIndex(
+    (rule) =>
+      (!rule.branch || matchesPattern(target.branch, rule.branch)) &&
+      (!rule.repository || matchesPattern(target.repository, rule.repository)),
+  );
+
+  return index === -1 ? undefined : { rule: rules[index], index };
+}
+
+/**
+ * Describe a rule in a human-readable way
+ */
+export function describeBranchRule(rule: BranchRule): string {
+  const conditions = [
+    rule.branch ? `branch ${rule.branch}` : undefined,
+    rule.repository ? `repository ${rule.repository}` : undefined,
+  ].filter(Boolean);
+
+  const action = rule.ignore ? "do not track" : `issue ${rule.issue}`;
+
+  return `${conditions.length > 0 ? conditions.join(" and ") : "any branch"} → ${action}`;
+}
@@ -5,6 +5,7 @@
  */
 
 import axios from "axios";
+import { TEMPO_PAGE_SIZE } from "./constants";
 
 /**
  * Tempo worklog interface
@@ -26,6 +27,30 @@ function toSecondsSinceMidnight(timeStr: string): number {
   return parseInt(hours) * 3600 + parseInt(minutes) * 60;
 }
 
+/**
+ * The parts of a worklog returned by Tempo that Tempo CLI uses
+ */
+export interface TempoWorklogResponse {
+  tempoWorklogId: number;
+  issue: { id: number };
+  timeSpentSeconds: number;
+  startDate: string; // YYYY-MM-DD
+  startDateTimeUtc: string;
+  description: string;
+  updatedAt?: string;
+}
+
+/**
+ * Get the request headers of the Tempo API
+ */
+function getTempoHeaders(apiKey: string) {
+  return {
+    Authorization: `Bearer ${apiKey}`,
+    "Content-Type": "application/json",
+    "Accept-Version": "v4",
+  };
+}
+
 /**
  * Create a worklog in Tempo
  */
@@ -33,7 +58,7 @@ export async function createTempoWorklog(
   worklog: TempoWorklog,
   apiKey: string,
   tempoBaseUrl: string
-): Promise<any> {
+): Promise<TempoWorklogResponse> {
   if (!apiKey) throw new Error("API key not provided");
 
   const payload = {
@@ -46,43 +71,187 @@ export async function createTempoWorklog(
   };
 
   const response = await axios.post(`${tempoBaseUrl}/worklogs`, payload, {
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      "Content-Type": "application/json",
-      "Accept-Version": "v4",
-    },
+    headers: getTempoHeaders(apiKey),
   });
 
   return response.data;
 }
 
 /**
- * Get worklogs for a specific date
+ * Update a worklog in Tempo
+ *
+ * Tempo doesn't allow moving a worklog to another issue, so the issue ID of
+ * the worklog is ignored; compare it with the issue of the returned worklog.
  */
-export async function getWorklogsForDate(
-  date: string,
+export async function updateTempoWorklog(
+  tempoWorklogId: number,
+  worklog: TempoWorklog,
+  apiKey: string,
+  tempoBaseUrl: string
+): Promise<TempoWorklogResponse> {
+  if (!apiKey) throw new Error("API key not provided");
+
+  const payload = {
+    timeSpentSeconds: worklog.timeSpentSeconds,
+    startDate: worklog.startDate,
+    startTime: toSecondsSinceMidnight(worklog.startTime),
+    description: worklog.description,
+    authorAccountId: worklog.authorAccountId,
+  };
+
+  const response = await axios.put(
+    `${tempoBaseUrl}/worklogs/${tempoWorklogId}`,
+    payload,
+    { headers: getTempoHeaders(apiKey) }
+  );
+
+  return response.data;
+}
+
+/**
+ * Delete a worklog in Tempo
+ *
+ * Worklogs that no longer exist count as deleted.
+ */
+export async function deleteTempoWorklog(
+  tempoWorklogId: number,
+  apiKey: string,
+  tempoBaseUrl: string
+): Promise<void> {
+  if (!apiKey) throw new Error("API key not provided");
+
+  try {
+    await axios.delete(`${tempoBaseUrl}/worklogs/${tempoWorklogId}`, {
+      headers: getTempoHeaders(apiKey),
+    });
+  } catch (error: any) {
+    if (error.response?.status !== 404) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * A failed Tempo request, classified by whether retrying it can help
+ */
+export interface TempoError {
+  transient: boolean;
+  rateLimited: boolean;
+  retryAfterMs?: number;
+  message: string;
+}
+
+/**
+ * Get the delay Tempo asked for in a Retry-After header, given in seconds
+ * or as an HTTP date
+ */
+function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== "string" && typeof value !== "number") {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(seconds, 0) * 1000;
+  }
+
+  const date = Date.parse(String(value));
+  return isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * Classify an error of a Tempo request
+ *
+ * Network errors, server errors and rate limiting (429) are transient.
+ * Other client errors, such as validation errors, fail the same way every
+ * time and are permanent.
+ */
+export function classifyTempoError(error: any): TempoError {
+  const status: number | undefined = error?.response?.status;
+  const errors = error?.response?.data?.errors;
+  const detail = Array.isArray(errors)
+    ? errors.map((e: any) => e.message).join("; ")
+    : undefined;
+  const message = detail
+    ? `${status}: ${detail}`
+    : status
+      ? `${status}: ${error.message}`
+      : (error?.message ?? String(error));
+
+  if (status === 429) {
+    return {
+      transient: true,
+      rateLimited: true,
+      retryAfterMs: parseRetryAfter(error.response.headers?.["retry-after"]),
+      message,
+    };
+  }
+
+  return {
+    transient: !status || status >= 500,
+    rateLimited: false,
+    message,
+  };
+}
+
+/**
+ * Get the worklogs of a user between two days (inclusive)
+ *
+ * Tempo returns worklogs one page at a time; every page is fetched.
+ */
+export async function getWorklogsForUser(
   userId: string,
+  from: string,
+  to: string,
   apiKey: string,
   tempoBaseUrl: string
-): Promise<any[]> {
+): Promise<TempoWorklogResponse[]> {
   if (!apiKey) throw new Error("API key not provided");
   if (!userId) throw new Error("User ID not provided");
 
+  const worklogs: TempoWorklogResponse[] = [];
+
+  for (let offset = 0; ; ) {
+    const response = await axios.get(
+      `${tempoBaseUrl}/worklogs/user/${userId}`,
+      {
+        params: { from, to, offset, limit: TEMPO_PAGE_SIZE },
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Accept-Version": "v4",
+        },
+      }
+    );
+
+    const results: TempoWorklogResponse[] = response.data.results || [];
+    worklogs.push(...results);
+    offset += results.length;
+
+    if (!response.data.metadata?.next || results.length === 0) {
+      return worklogs;
+    }
+  }
+}
+
+/**
+ * Get worklogs for a specific date
+ */
+export async function getWorklogsForDate(
+  date: string,
+  userId: string,
+  apiKey: string,
+  tempoBaseUrl: string
+): Promise<TempoWorklogResponse[]> {
   // Format date as required by Tempo API (YYYY-MM-DD)
   const formattedDate = date.split("T")[0];
 
-  const response = await axios.get(`${tempoBaseUrl}/worklogs/user/${userId}`, {
-    params: {
-      from: formattedDate,
-      to: formattedDate,
-    },
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      "Accept-Version": "v4",
-    },
-  });
-
-  return response.data.results || [];
+  return getWorklogsForUser(
+    userId,
+    formattedDate,
+    formattedDate,
+    apiKey,
+    tempoBaseUrl
+  );
 }
 
 /**
@@ -94,6 +263,7 @@ export async function getWorklogsForDate(
 export async function sendTempoPulse(options: {
   branch: string;
   issueId?: number;
+  issueKey?: string;
   description?: string;
   apiKey: string;
   tempoBaseUrl: string;
@@ -101,9 +271,13 @@ export async function sendTempoPulse(options: {
   if (!options.apiKey) throw new Error("API key not provided");
   if (!options.branch) throw new Error("Branch name not provided");
 
-  // Prepare search strings (branch name and issue ID if available)
+  // Prepare search strings (branch name and issue key/ID if available)
   const searchStrings = [options.branch];
 
+  if (options.issueKey) {
+    searchStrings.push(options.issueKey);
+  }
+
   if (options.issueId) {
     searchStrings.push(`${options.issueId}`);
   }
@@ -4,13 +4,35 @@
  * Handles time tracking logic independent of any frontend
  */
 
-import { addActivityLog, updateActivityLog } from "./config";
+import os from "os";
+import path from "path";
+import {
+  addActivityLog,
+  getEffectiveConfig,
+  updateActivityLog,
+} from "./config";
 import type { ConfigType } from "./config";
 
 // Define ActivityLogEntry type locally
 type ActivityLogEntry = ConfigType["activityLog"][0];
-import { getCurrentBranch } from "./git";
+import {
+  getCommitSubjects,
+  getCurrentBranch,
+  getGitRepositoryInfo,
+  getLastRepositoryActivity,
+  getRepositoryName,
+} from "./git";
 import { sendTempoPulse } from "./tempo";
+import {
+  IssueReference,
+  isIssueKey,
+  parseIssueReference,
+  resolveIssueReference,
+} from "./jira";
+import { BranchRuleMatch, findBranchRule } from "./rules";
+import { DEFAULT_DESCRIPTION_TEMPLATE } from "./constants";
+import { renderTemplate } from "./utils/format";
+import { globToRegExp, matchesPattern } from "./utils/match";
 
 // Maximum tracking time in milliseconds (8 hours)
 export const MAX_TRACKING_TIME_MS = 8 * 60 * 60 * 1000;
@@ -18,18 +40,177 @@ export const MAX_TRACKING_TIME_MS = 8 * 60 * 60 * 1000;
 // Pulse interval in milliseconds (5 minutes)
 export const PULSE_INTERVAL_MS = 5 * 60 * 1000;
 
+/**
+ * A span of unpaused time within a tracking session
+ *
+ * The last interval of a running session has no end; a paused session has
+ * all of its intervals closed.
+ */
+export interface SessionInterval {
+  start: string;
+  end?: string;
+}
+
+/**
+ * Where the issue of a session came from
+ *
+ * - explicit: given by the user with --issue-id
+ * - rule: set by a matching branch rule
+ * - branch: inferred from the branch name
+ * - default: the default issue of the repository configuration
+ */
+export type IssueSource = "explicit" | "rule" | "branch" | "default";
+
 /**
  * Session interface representing an active tracking session
  */
 export interface TrackingSession {
   id: string;
   branch: string;
-  directory: string;
+  directory: string; // Root of the working tree, e.g. a linked worktree
+  repository?: string; // Canonical path of the repository the worktree belongs to
   startTime: string;
+  intervals?: SessionInterval[];
+  lastActivityTime?: string;
   issueId?: number;
+  issueKey?: string;
+  issueSource?: IssueSource;
   description?: string;
 }
 
+/**
+ * Extract a Jira issue key from a branch name
+ *
+ * The pattern is a regular expression whose first capture group holds the
+ * key, e.g. `([A-Z][A-Z0-9_]*-\d+)` turns `feature/ABC-482-fix-login` into
+ * `ABC-482`.
+ */
+export function inferIssueKeyFromBranch(
+  branch: string,
+  pattern: string,
+): string | undefined {
+  const match = branch.match(new RegExp(pattern));
+  const issueKey = match?.[1]?.toUpperCase();
+
+  return issueKey && isIssueKey(issueKey) ? issueKey : undefined;
+}
+
+/**
+ * Check if a branch matches one of the ignored branch patterns
+ */
+export function isBranchIgnored(
+  branch: string,
+  ignoredBranches: string[],
+): boolean {
+  return ignoredBranches.some((pattern) => matchesPattern(branch, pattern));
+}
+
+/**
+ * Find the ignored path pattern one of the directories lies in, if any
+ *
+ * Patterns are globs that may start with `~` for the home directory. A
+ * pattern matching a directory also covers everything below it.
+ */
+export function findIgnoredPath(
+  directories: string[],
+  ignoredPaths: string[],
+): string | undefined {
+  return ignoredPaths.find((pattern) => {
+    // Absolute paths look like regular expressions to matchesPattern, so
+    // path patterns are always globs
+    const glob = pattern
+      .replace(/^~(?=$|\/)/, os.homedir())
+      .replace(/(.)\/+$/, "$1");
+    const regex = globToRegExp(glob);
+    const subdirectoryRegex = globToRegExp(`${glob}/**`);
+
+    return directories.some(
+      (directory) => regex.test(directory) || subdirectoryRegex.test(directory),
+    );
+  });
+}
+
+/**
+ * Check if a repository name matches one of the ignored repository patterns
+ */
+export function isRepositoryIgnored(
+  repository: string,
+  ignoredRepositories: string[],
+): boolean {
+  return ignoredRepositories.some((pattern) =>
+    matchesPattern(repository, pattern),
+  );
+}
+
+/**
+ * Result of evaluating the configuration for a branch of a repository
+ */
+export interface BranchEvaluation {
+  repository: string;
+  rule?: BranchRuleMatch;
+  ignoreReason?: string;
+}
+
+/**
+ * Evaluate the ignore lists and branch rules for a branch
+ *
+ * Ignored paths are checked first, then ignored repositories, ignored
+ * branches and finally the branch rules.
+ */
+export async function evaluateBranch(
+  directory: string,
+  branch: string,
+): Promise<BranchEvaluation> {
+  const { config } = await getEffectiveConfig(directory);
+  const repository = await getRepositoryName(directory);
+  const rule = findBranchRule(config.branchRules, { branch, repository });
+
+  // Check the repository a worktree belongs to as well, so ignoring a
+  // repository also ignores its linked worktrees
+  const directories = [path.resolve(directory)];
+  const repositoryPath = getGitRepositoryInfo(directory)?.repository;
+  if (repositoryPath && !directories.includes(repositoryPath)) {
+    directories.push(repositoryPath);
+  }
+
+  const ignoredPath = findIgnoredPath(directories, config.ignoredPaths);
+  if (ignoredPath) {
+    return {
+      repository,
+      rule,
+      ignoreReason: `Directory ${directory} is ignored by the configuration (${ignoredPath})`,
+    };
+  }
+
+  if (isRepositoryIgnored(repository, config.ignoredRepositories)) {
+    return {
+      repository,
+      rule,
+      ignoreReason: `Repository ${repository} is ignored by the configuration`,
+    };
+  }
+
+  if (isBranchIgnored(branch, config.ignoredBranches)) {
+    return {
+      repository,
+      rule,
+      ignoreReason: `Branch ${branch} is ignored by the configuration`,
+    };
+  }
+
+  if (rule?.rule.ignore) {
+    return {
+      repository,
+      rule,
+      ignoreReason: `Branch ${branch} is not tracked because of branch rule #${
+        rule.index + 1
+      }`,
+    };
+  }
+
+  return { repository, rule };
+}
+
 /**
  * Start a tracking session
  */
@@ -38,42 +219,242 @@ export async function startTracking(
   options: {
     description?: string;
     issueId?: number;
+    issueKey?: string;
   } = {},
 ): Promise<TrackingSession> {
   // Get the current branch
   const branch = await getCurrentBranch(directory);
 
+  const evaluation = await evaluateBranch(directory, branch);
+  if (evaluation.ignoreReason) {
+    throw new Error(evaluation.ignoreReason);
+  }
+
+  const { config } = await getEffectiveConfig(directory);
+  const issue = await determineSessionIssue(
+    branch,
+    options,
+    config,
+    evaluation.rule,
+  );
+
   // Create a new session
+  const startTime = new Date().toISOString();
   const session: TrackingSession = {
     id: crypto.randomUUID(),
     branch,
     directory,
-    startTime: new Date().toISOString(),
-    issueId: options.issueId,
+    repository: getGitRepositoryInfo(directory)?.repository,
+    startTime,
+    intervals: [{ start: startTime }],
+    ...issue,
     description: options.description,
   };
 
   return session;
 }
 
+/**
+ * Determine the issue of a new session
+ *
+ * An explicit issue always wins, followed by the matching branch rule, the
+ * issue inferred from the branch name and finally the default issue of the
+ * configuration. Explicit issues must resolve; other keys that can't be
+ * resolved yet are kept so they can be resolved when syncing.
+ */
+export async function determineSessionIssue(
+  branch: string,
+  options: { issueId?: number; issueKey?: string },
+  config: { branchIssuePattern?: string; defaultIssue?: string },
+  rule?: BranchRuleMatch,
+): Promise<Pick<TrackingSession, "issueId" | "issueKey" | "issueSource">> {
+  // Resolve the issue key to the numeric ID Tempo needs, or vice versa
+  if (options.issueId || options.issueKey) {
+    return {
+      ...(await resolveIssueReference(options)),
+      issueSource: "explicit",
+    };
+  }
+
+  if (rule?.rule.issue !== undefined) {
+    return resolveInferredIssue(
+      parseIssueReference(`${rule.rule.issue}`),
+      "rule",
+    );
+  }
+
+  const issueKey = config.branchIssuePattern
+    ? inferIssueKeyFromBranch(branch, config.branchIssuePattern)
+    : undefined;
+
+  if (issueKey) {
+    return resolveInferredIssue({ issueKey }, "branch");
+  }
+
+  if (config.defaultIssue) {
+    return resolveInferredIssue(
+      parseIssueReference(config.defaultIssue),
+      "default",
+    );
+  }
+
+  return {};
+}
+
+/**
+ * Resolve an issue that wasn't given explicitly, keeping it unresolved if
+ * Jira can't be reached
+ */
+async function resolveInferredIssue(
+  reference: IssueReference,
+  issueSource: IssueSource,
+): Promise<Pick<TrackingSession, "issueId" | "issueKey" | "issueSource">> {
+  try {
+    return { ...(await resolveIssueReference(reference)), issueSource };
+  } catch (error) {
+    return { ...reference, issueSource };
+  }
+}
+
+/**
+ * Get the intervals of a session
+ *
+ * Sessions persisted before pause support have no intervals and are treated
+ * as a single running interval starting at `startTime`.
+ */
+export function getSessionIntervals(
+  session: TrackingSession,
+): SessionInterval[] {
+  if (!session.intervals || session.intervals.length === 0) {
+    return [{ start: session.startTime }];
+  }
+  return session.intervals;
+}
+
+/**
+ * Check if a session is currently paused
+ */
+export function isSessionPaused(session: TrackingSession): boolean {
+  const intervals = getSessionIntervals(session);
+  return intervals[intervals.length - 1].end !== undefined;
+}
+
+/**
+ * Pause a tracking session by closing its running interval
+ */
+export function pauseTracking(
+  session: TrackingSession,
+  pauseTime: Date = new Date(),
+): TrackingSession {
+  if (isSessionPaused(session)) {
+    throw new Error("Session is already paused");
+  }
+
+  const intervals = getSessionIntervals(session).map((interval) => ({
+    ...interval,
+  }));
+  intervals[intervals.length - 1].end = pauseTime.toISOString();
+
+  return { ...session, intervals };
+}
+
+/**
+ * Resume a paused tracking session by opening a new interval
+ */
+export function resumeTracking(
+  session: TrackingSession,
+  resumeTime: Date = new Date(),
+): TrackingSession {
+  if (!isSessionPaused(session)) {
+    throw new Error("Session is not paused");
+  }
+
+  const intervals = [
+    ...getSessionIntervals(session),
+    { start: resumeTime.toISOString() },
+  ];
+
+  return { ...session, intervals };
+}
+
+/**
+ * Calculate the unpaused duration of a session in milliseconds
+ */
+export function getSessionActiveDurationMs(
+  session: TrackingSession,
+  now: Date = new Date(),
+): number {
+  return getSessionIntervals(session).reduce(
+    (total, interval) =>
+      total +
+      getSessionDurationMs(interval.start, interval.end ?? now.toISOString()),
+    0,
+  );
+}
+
 /**
  * Stop a tracking session and record it in the activity log
+ *
+ * When an end time is given (e.g. the last activity of an idle session),
+ * any tracked time after it is discarded.
  */
 export async function stopTracking(
   session: TrackingSession,
+  endTime: Date = new Date(),
 ): Promise<ActivityLogEntry> {
-  // Calculate duration
-  const startTime = new Date(session.startTime);
-  const endTime = new Date();
+  // Close the running interval and trim everything after the end time
+  const end = endTime.getTime();
+  const intervals = getSessionIntervals(session)
+    .filter(
+      (interval, index) =>
+        index === 0 || new Date(interval.start).getTime() < end,
+    )
+    .map((interval) => {
+      const start = new Date(interval.start).getTime();
+      const intervalEnd = interval.end ? new Date(interval.end).getTime() : end;
+      return {
+        start: interval.start,
+        end: new Date(
+          Math.max(start, Math.min(intervalEnd, end)),
+        ).toISOString(),
+      };
+    });
+
+  // Fall back to the description template, which by default lists the
+  // commits made during the session
+  let description = session.description;
+  if (!description) {
+    const { config } = await getEffectiveConfig(session.directory);
+    const template = config.descriptionTemplate ?? DEFAULT_DESCRIPTION_TEMPLATE;
+    const commits = template.includes("{commits}")
+      ? await getCommitSubjects(
+          session.directory,
+          session.branch,
+          new Date(session.startTime),
+          endTime,
+        )
+      : [];
 
-  // Add to activity log
+    description =
+      renderTemplate(template, {
+        branch: session.branch,
+        issueKey: session.issueKey,
+        repo: await getRepositoryName(session.directory),
+        commits: commits.join("; "),
+      }) || undefined;
+  }
+
+  // Add to activity log, keeping the intervals only when there were pauses
   const activityEntry = await addActivityLog({
     branch: session.branch,
     directory: session.directory,
+    repository: session.repository,
     startTime: session.startTime,
-    endTime: endTime.toISOString(),
+    endTime: intervals[intervals.length - 1].end,
+    intervals: intervals.length > 1 ? intervals : undefined,
     issueId: session.issueId || 0,
-    description: session.description,
+    issueKey: session.issueKey,
+    description,
   });
 
   return activityEntry;
@@ -94,6 +475,7 @@ export async function sendSessionPulse(
   await sendTempoPulse({
     branch: session.branch,
     issueId: session.issueId,
+    issueKey: session.issueKey,
     description: session.description,
     apiKey,
     tempoBaseUrl,
@@ -102,13 +484,71 @@ export async function sendSessionPulse(
 
 /**
  * Check if a session has exceeded the maximum tracking time
+ *
+ * Only unpaused time counts towards the limit.
  */
 export function isSessionExpired(session: TrackingSession): boolean {
-  const startTime = new Date(session.startTime);
+  return getSessionActiveDurationMs(session) > MAX_TRACKING_TIME_MS;
+}
+
+/**
+ * Get the time of the last known activity in a session
+ *
+ * Starting or resuming a session counts as activity.
+ */
+export function getSessionLastActivity(session: TrackingSession): Date {
+  const intervals = getSessionIntervals(session);
+  const resumedAt = new Date(intervals[intervals.length - 1].start);
+
+  if (session.lastActivityTime) {
+    const lastActivity = new Date(session.lastActivityTime);
+    if (lastActivity > resumedAt) {
+      return lastActivity;
+    }
+  }
+
+  return resumedAt;
+}
+
+/**
+ * Refresh the last activity time of a session from its working tree
+ */
+export async function updateSessionActivity(
+  session: TrackingSession,
+): Promise<TrackingSession> {
+  const repositoryActivity = await getLastRepositoryActivity(session.directory);
+
+  if (
+    !repositoryActivity ||
+    repositoryActivity <= getSessionLastActivity(session)
+  ) {
+    return session;
+  }
+
+  // Activity can't be in the future, e.g. files with a skewed mtime
   const now = new Date();
-  const durationMs = now.getTime() - startTime.getTime();
+  const lastActivity = repositoryActivity > now ? now : repositoryActivity;
+
+  return { ...session, lastActivityTime: lastActivity.toISOString() };
+}
+
+/**
+ * Check if a running session has seen no activity for longer than the timeout
+ *
+ * Paused sessions are never idle since they don't accrue time.
+ */
+export function isSessionIdle(
+  session: TrackingSession,
+  idleTimeoutMs: number,
+  now: Date = new Date(),
+): boolean {
+  if (idleTimeoutMs <= 0 || isSessionPaused(session)) {
+    return false;
+  }
 
-  return durationMs > MAX_TRACKING_TIME_MS;
+  return (
+    now.getTime() - getSessionLastActivity(session).getTime() > idleTimeoutMs
+  );
 }
 
 /**
@@ -123,6 +563,22 @@ export function getSessionDurationMs(
   return end.getTime() - start.getTime();
 }
 
+/**
+ * Calculate the tracked duration of an activity log entry in milliseconds
+ *
+ * Entries recorded from a paused session only count their intervals.
+ */
+export function getActivityDurationMs(activity: ActivityLogEntry): number {
+  if (activity.intervals && activity.intervals.length > 0) {
+    return activity.intervals.reduce(
+      (total, interval) =>
+        total + getSessionDurationMs(interval.start, interval.end),
+      0,
+    );
+  }
+  return getSessionDurationMs(activity.startTime, activity.endTime);
+}
+
 /**
  * Check if the branch has changed for a session
  */
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "bun:test";
+import {
+  formatLocalDate,
+  getDayRange,
+  parseLocalDateTime,
+  parseLocalEndTime,
+} from "./format";
+
+const BERLIN = "Europe/Berlin";
+const HOUR_MS = 60 * 60 * 1000;
+
+describe("parseLocalDateTime", () => {
+  it("moves a time skipped by the spring change forward by the gap", () => {
+    // 02:00 CET jumps to 03:00 CEST, so 02:30 doesn't exist
+    expect(
+      parseLocalDateTime("2026-03-29", "02:30", BERLIN).toISOString(),
+    ).toBe("2026-03-29T01:30:00.000Z");
+  });
+
+  it("resolves a time repeated by the autumn change to the first one", () => {
+    // 03:00 CEST falls back to 02:00 CET, so 02:30 happens twice
+    expect(
+      parseLocalDateTime("2026-10-25", "02:30", BERLIN).toISOString(),
+    ).toBe("2026-10-25T00:30:00.000Z");
+  });
+
+  it("uses the offset in effect on either side of the changes", () => {
+    expect(
+      parseLocalDateTime("2026-03-29", "01:59", BERLIN).toISOString(),
+    ).toBe("2026-03-29T00:59:00.000Z");
+    expect(
+      parseLocalDateTime("2026-03-29", "03:00", BERLIN).toISOString(),
+    ).toBe("2026-03-29T01:00:00.000Z");
+    expect(
+      parseLocalDateTime("2026-10-25", "03:00", BERLIN).toISOString(),
+    ).toBe("2026-10-25T02:00:00.000Z");
+  });
+});
+
+describe("getDayRange", () => {
+  it("is 23 hours long on the day of the spring change", () => {
+    const { start, end } = getDayRange("2026-03-29", BERLIN);
+
+    expect(start.toISOString()).toBe("2026-03-28T23:00:00.000Z");
+    expect(end.toISOString()).toBe("2026-03-29T22:00:00.000Z");
+    expect(end.getTime() - start.getTime()).toBe(23 * HOUR_MS);
+  });
+
+  it("is 25 hours long on the day of the autumn change", () => {
+    const { start, end } = getDayRange("2026-10-25", BERLIN);
+
+    expect(start.toISOString()).toBe("2026-10-24T22:00:00.000Z");
+    expect(end.toISOString()).toBe("2026-10-25T23:00:00.000Z");
+    expect(end.getTime() - start.getTime()).toBe(25 * HOUR_MS);
+  });
+
+  it("is 24 hours long on other days", () => {
+    const { start, end } = getDayRange("2026-10-26", BERLIN);
+
+    expect(end.getTime() - start.getTime()).toBe(24 * HOUR_MS);
+  });
+});
+
+describe("formatLocalDate", () => {
+  it("puts the last instant before midnight on the day before", () => {
+    const { start } = getDayRange("2026-10-25", BERLIN);
+
+    expect(formatLocalDate(new Date(start.getTime() - 1), BERLIN)).toBe(
+      "2026-10-24",
+    );
+    expect(formatLocalDate(start, BERLIN)).toBe("2026-10-25");
+  });
+});
+
+describe("parseLocalEndTime", () => {
+  it("takes a time after the start on the same day", () => {
+    const start = parseLocalDateTime("2026-10-15", "09:00", BERLIN);
+
+    expect(
+      parseLocalEndTime("2026-10-15", "17:30", start, BERLIN).toISOString(),
+    ).toBe("2026-10-15T15:30:00.000Z");
+  });
+
+  it("takes a time before the start on the next day", () => {
+    const start = parseLocalDateTime("2026-10-15", "22:00", BERLIN);
+
+    expect(
+      parseLocalEndTime("2026-10-15", "01:30", start, BERLIN).toISOString(),
+    ).toBe("2026-10-15T23:30:00.000Z");
+  });
+
+  it("crosses midnight on the night of the autumn change", () => {
+    const start = parseLocalDateTime("2026-10-24", "23:00", BERLIN);
+    const end = parseLocalEndTime("2026-10-24", "04:00", start, BERLIN);
+
+    expect(end.toISOString()).toBe("2026-10-25T03:00:00.000Z");
+    expect(end.getTime() - start.getTime()).toBe(6 * HOUR_MS);
+  });
+});
@@ -11,8 +11,13 @@ export function formatDuration(
 ): string {
   const start = new Date(startTime);
   const end = endTime ? new Date(endTime) : new Date();
-  const durationMs = end.getTime() - start.getTime();
+  return formatDurationMs(end.getTime() - start.getTime());
+}
 
+/**
+ * Format a duration given in milliseconds in a human-readable format
+ */
+export function formatDurationMs(durationMs: number): string {
   // Format as hours and minutes
   const hours = Math.floor(durationMs / (1000 * 60 * 60));
   const minutes = Math.floor((durationMs % (1000 * 60 * 60)) / (1000 * 60));
@@ -27,11 +32,243 @@ export function formatDuration(
 /**
  * Format date in a readable format
  */
-export function formatDate(dateString: string): string {
+export function formatDate(dateString: string, timeZone?: string): string {
   const date = new Date(dateString);
+  const zone = resolveTimeZone(timeZone);
   return (
-    date.toLocaleDateString() +
+    date.toLocaleDateString(undefined, { timeZone: zone }) +
     " " +
-    date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+    date.toLocaleTimeString([], {
+      hour: "2-digit",
+      minute: "2-digit",
+      timeZone: zone,
+    })
+  );
+}
+
+/**
+ * Format an issue for display, preferring the human-readable key
+ */
+export function formatIssue(issue: {
+  issueId?: number;
+  issueKey?: string;
+}): string | undefined {
+  if (issue.issueKey) {
+    return issue.issueKey;
+  }
+  return issue.issueId ? `${issue.issueId}` : undefined;
+}
+
+/**
+ * Render a template by replacing `{placeholder}` with the given values
+ *
+ * Unknown or missing placeholders are replaced with an empty string.
+ */
+export function renderTemplate(
+  template: string,
+  values: Record<string, string | undefined>
+): string {
+  return template
+    .replace(/\{(\w+)\}/g, (_, name: string) => values[name] ?? "")
+    .trim();
+}
+
+/**
+ * Get the IANA name of a time zone, defaulting to the system time zone
+ */
+export function resolveTimeZone(timeZone?: string): string {
+  return timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Check if a time zone is known to the runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the calendar date and wall-clock time of an instant in a time zone
+ */
+function getZonedParts(
+  date: Date,
+  timeZone?: string
+): {
+  year: number;
+  month: number;
+  day: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+} {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: resolveTimeZone(timeZone),
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+
+  const value = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: value("year"),
+    month: value("month"),
+    day: value("day"),
+    hours: value("hour"),
+    minutes: value("minute"),
+    seconds: value("second"),
+  };
+}
+
+/**
+ * Get the offset of a time zone from UTC at an instant, in milliseconds
+ */
+function getTimeZoneOffsetMs(date: Date, timeZone?: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const wallClock = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hours,
+    parts.minutes,
+    parts.seconds
   );
+  return wallClock - (date.getTime() - date.getUTCMilliseconds());
+}
+
+/**
+ * Convert a wall-clock time in a time zone to an instant
+ *
+ * Times skipped by a daylight saving change are moved forward by the size
+ * of the gap; times that occur twice resolve to the first occurrence.
+ */
+function zonedTimeToDate(
+  year: number,
+  month: number,
+  day: number,
+  hours: number,
+  minutes: number,
+  timeZone?: string
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+  const dayMs = 24 * 60 * 60 * 1000;
+
+  // Try the offsets in effect a day before and after; at most one
+  // daylight saving change lies in between
+  const candidates = [wallClock - dayMs, wallClock + dayMs].map(
+    (time) => wallClock - getTimeZoneOffsetMs(new Date(time), timeZone)
+  );
+  const valid = candidates.filter(
+    (candidate) =>
+      getTimeZoneOffsetMs(new Date(candidate), timeZone) ===
+      wallClock - candidate
+  );
+
+  return new Date(valid.length > 0 ? Math.min(...valid) : candidates[0]);
+}
+
+/**
+ * Parse a date (YYYY-MM-DD) and a time (HH:MM) in a time zone
+ *
+ * Without a time zone, the system time zone is used.
+ */
+export function parseLocalDateTime(
+  date: string,
+  time: string,
+  timeZone?: string
+): Date {
+  const dateMatch = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!dateMatch) {
+    throw new Error(`Invalid date "${date}", expected YYYY-MM-DD`);
+  }
+
+  const timeMatch = time.match(/^(\d{1,2}):(\d{2})$/);
+  if (!timeMatch) {
+    throw new Error(`Invalid time "${time}", expected HH:MM`);
+  }
+
+  const [, year, month, day] = dateMatch.map(Number);
+  const [, hours, minutes] = timeMatch.map(Number);
+
+  if (hours > 23 || minutes > 59) {
+    throw new Error(`Invalid time "${time}"`);
+  }
+
+  const calendarDate = new Date(Date.UTC(year, month - 1, day));
+  if (
+    calendarDate.getUTCMonth() !== month - 1 ||
+    calendarDate.getUTCDate() !== day
+  ) {
+    throw new Error(`Invalid date "${date}"`);
+  }
+
+  return zonedTimeToDate(year, month, day, hours, minutes, timeZone);
+}
+
+/**
+ * Parse a time (HH:MM) that ends a range starting at an instant
+ *
+ * The time is taken on a date (YYYY-MM-DD) in a time zone, or on the day
+ * after it if it isn't after the start there, so ranges can cross midnight.
+ */
+export function parseLocalEndTime(
+  date: string,
+  time: string,
+  start: Date,
+  timeZone?: string
+): Date {
+  const end = parseLocalDateTime(date, time, timeZone);
+  return end > start
+    ? end
+    : parseLocalDateTime(getNextDate(date), time, timeZone);
+}
+
+/**
+ * Get the day (YYYY-MM-DD) after a day
+ */
+function getNextDate(date: string): string {
+  const nextDay = new Date(`${date}T00:00:00.000Z`);
+  nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+  return nextDay.toISOString().split("T")[0];
+}
+
+/**
+ * Format a date as YYYY-MM-DD in a time zone
+ */
+export function formatLocalDate(date: Date, timeZone?: string): string {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${`${month}`.padStart(2, "0")}-${`${day}`.padStart(2, "0")}`;
+}
+
+/**
+ * Format a time as HH:MM in a time zone
+ */
+export function formatLocalTime(date: Date, timeZone?: string): string {
+  const { hours, minutes } = getZonedParts(date, timeZone);
+  return `${`${hours}`.padStart(2, "0")}:${`${minutes}`.padStart(2, "0")}`;
+}
+
+/**
+ * Get the start of a day (YYYY-MM-DD) and of the day after in a time zone
+ *
+ * Days aren't always 24 hours long because of daylight saving changes.
+ */
+export function getDayRange(
+  date: string,
+  timeZone?: string
+): { start: Date; end: Date } {
+  const start = parseLocalDateTime(date, "00:00", timeZone);
+  const end = parseLocalDateTime(getNextDate(date), "00:00", timeZone);
+
+  return { start, end };
 }
@@ -0,0 +1,49 @@
+/**
+ * Pattern matching utility functions for the Tempo CLI
+ *
+ * Used for branch, repository and path patterns in the configuration
+ */
+
+/**
+ * Convert a glob pattern to a regular expression
+ *
+ * Supports `*` (anything but `/`), `**` (anything) and `?` (one character).
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = "";
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        source += ".*";
+        i++;
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check if a value matches a pattern
+ *
+ * Patterns wrapped in slashes (e.g. `/^release\/.+$/`) are regular
+ * expressions, anything else is a glob.
+ */
+export function matchesPattern(value: string, pattern: string): boolean {
+  const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/);
+
+  if (regexMatch) {
+    return new RegExp(regexMatch[1], regexMatch[2]).test(value);
+  }
+
+  return globToRegExp(pattern).test(value);
+}
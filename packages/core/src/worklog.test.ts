@@ -0,0 +1,216 @@
+import { afterAll, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import axios from "axios";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { addActivityLog, getActivityLog, updateConfig } from "./config";
+import type { ActivityLogEntry } from "./config";
+import { getOutbox } from "./outbox";
+import {
+  DEFAULT_WORKLOG_RULES,
+  getBookedDurations,
+  syncActivities,
+} from "./worklog";
+
+// Keep the configuration of the tests away from the real one
+const configHome = fs.mkdtempSync(path.join(os.tmpdir(), "tempo-tracker-"));
+process.env.XDG_CONFIG_HOME = configHome;
+
+const rules = {
+  ...DEFAULT_WORKLOG_RULES,
+  roundingMode: "up" as const,
+  roundingMinutes: 60,
+  consolidationGapMinutes: 0,
+  timeZone: "UTC",
+};
+
+afterAll(() => {
+  fs.rmSync(configHome, { recursive: true, force: true });
+});
+
+// Worklogs in the stubbed Tempo
+let tempoWorklogs: any[] = [];
+
+spyOn(axios, "get").mockImplementation((async () => ({
+  data: { results: tempoWorklogs, metadata: {} },
+})) as any);
+spyOn(axios, "post").mockImplementation((async (_url: string, body: any) => {
+  const worklog = {
+    tempoWorklogId: 100 + tempoWorklogs.length,
+    issue: { id: body.issueId },
+    timeSpentSeconds: body.timeSpentSeconds,
+    startDate: body.startDate,
+    startDateTimeUtc: `${body.startDate}T${new Date(body.startTime * 1000)
+      .toISOString()
+      .slice(11, 19)}Z`,
+    description: body.description,
+  };
+  tempoWorklogs.push(worklog);
+  return { data: worklog };
+}) as any);
+
+function addEntry(startTime: string, endTime: string) {
+  return addActivityLog({
+    branch: "main",
+    directory: "/repo",
+    startTime,
+    endTime,
+    issueId: 1,
+  });
+}
+
+function createEntry(
+  id: string,
+  startTime: string,
+  endTime: string,
+): ActivityLogEntry {
+  return {
+    id,
+    branch: "main",
+    directory: "/repo",
+    startTime,
+    endTime,
+    issueId: 1,
+    synced: false,
+  };
+}
+
+describe("syncActivities", () => {
+  beforeEach(async () => {
+    tempoWorklogs = [];
+    await updateConfig({ activityLog: [], syncOutbox: [] });
+  });
+
+  it("doesn't take worklogs it created itself for duplicates", async () => {
+    // Both round up to an hour and overlap once booked
+    await addEntry("2026-10-15T09:00:00.000Z", "2026-10-15T09:50:00.000Z");
+    await addEntry("2026-10-15T09:52:00.000Z", "2026-10-15T10:40:00.000Z");
+
+    const result = await syncActivities(
+      { date: "2026-10-15" },
+      "account",
+      "key",
+      "https://tempo.test",
+      rules,
+    );
+
+    expect(result.synced).toBe(2);
+    expect(result.duplicates).toEqual([]);
+    expect(tempoWorklogs).toHaveLength(2);
+    expect(
+      (await getActivityLog()).map((activity) => activity.tempoWorklogIds),
+    ).toEqual([{ "2026-10-15": 100 }, { "2026-10-15": 101 }]);
+  });
+
+  it("doesn't take worklogs of other entries for duplicates", async () => {
+    await addEntry("2026-10-15T09:00:00.000Z", "2026-10-15T09:50:00.000Z");
+    await syncActivities(
+      { date: "2026-10-15" },
+      "account",
+      "key",
+      "https://tempo.test",
+      rules,
+    );
+
+    await addEntry("2026-10-15T09:52:00.000Z", "2026-10-15T10:40:00.000Z");
+    const result = await syncActivities(
+      { date: "2026-10-15" },
+      "account",
+      "key",
+      "https://tempo.test",
+      rules,
+    );
+
+    expect(result.synced).toBe(1);
+    expect(result.duplicates).toEqual([]);
+    expect(tempoWorklogs).toHaveLength(2);
+  });
+
+  it("doesn't send worklogs Tempo would reject", async () => {
+    await addActivityLog({
+      branch: "main",
+      directory: "/repo",
+      startTime: "2026-10-15T09:00:00.000Z",
+      endTime: "2026-10-15T10:00:00.000Z",
+      issueId: 0,
+    });
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const result = await syncActivities(
+        { date: "2026-10-15" },
+        "account",
+        "key",
+        "https://tempo.test",
+        rules,
+      );
+
+      expect(result.failed).toBe(1);
+      expect(result.invalid.map((invalid) => invalid.problems)).toEqual([
+        ["Issue ID is 0, the issue key could not be resolved"],
+      ]);
+    }
+
+    expect(tempoWorklogs).toEqual([]);
+    expect(await getOutbox()).toEqual([]);
+  });
+
+  it("links entries to matching worklogs from elsewhere", async () => {
+    tempoWorklogs.push({
+      tempoWorklogId: 7,
+      issue: { id: 1 },
+      timeSpentSeconds: 3600,
+      startDate: "2026-10-15",
+      startDateTimeUtc: "2026-10-15T09:00:00Z",
+      description: "Booked in the Tempo web UI",
+    });
+    await addEntry("2026-10-15T09:00:00.000Z", "2026-10-15T09:50:00.000Z");
+
+    const result = await syncActivities(
+      { date: "2026-10-15" },
+      "account",
+      "key",
+      "https://tempo.test",
+      rules,
+    );
+
+    expect(
+      result.duplicates.map((duplicate) => duplicate.tempoWorklogId),
+    ).toEqual([7]);
+    expect(tempoWorklogs).toHaveLength(1);
+    expect((await getActivityLog())[0].tempoWorklogIds).toEqual({
+      "2026-10-15": 7,
+    });
+  });
+});
+
+describe("getBookedDurations", () => {
+  it("shares a consolidated worklog between its entries", () => {
+    const entries = [
+      createEntry("a", "2026-10-15T09:00:00.000Z", "2026-10-15T09:20:00.000Z"),
+      createEntry("b", "2026-10-15T09:20:00.000Z", "2026-10-15T09:40:00.000Z"),
+    ];
+
+    const booked = getBookedDurations(entries, {
+      ...rules,
+      roundingMinutes: 60,
+      consolidationGapMinutes: 5,
+    });
+
+    expect(entries.map((entry) => booked.get(entry.id))).toEqual([1800, 1800]);
+  });
+
+  it("maps entries that aren't booked to null", () => {
+    const entry = createEntry(
+      "a",
+      "2026-10-15T09:00:00.000Z",
+      "2026-10-15T09:01:00.000Z",
+    );
+
+    const booked = getBookedDurations([entry], {
+      ...rules,
+      minimumDurationMinutes: 5,
+    });
+
+    expect(booked.get(entry.id)).toBeNull();
+  });
+});
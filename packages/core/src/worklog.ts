@@ -9,21 +9,257 @@ import type { ConfigType } from "./config";
 
 // Define ActivityLogEntry type locally
 type ActivityLogEntry = ConfigType["activityLog"][0];
-import { createTempoWorklog, TempoWorklog } from "./tempo";
-import { getSessionDurationMs } from "./tracking";
+import {
+  classifyTempoError,
+  createTempoWorklog,
+  deleteTempoWorklog,
+  getWorklogsForDate,
+  TempoWorklog,
+  TempoWorklogResponse,
+  updateTempoWorklog,
+} from "./tempo";
+import { getActivityDurationMs } from "./tracking";
+import { resolveIssueKey } from "./jira";
+import {
+  OutboxOperation,
+  discardQueuedOperations,
+  enqueueOperations,
+  getOutbox,
+  getRetryDelayMs,
+  isOperationDue,
+  removeOperations,
+  updateOperation,
+} from "./outbox";
+import {
+  filterActivities,
+  getActivityDates,
+  splitActivityByDay,
+} from "./activity";
+import {
+  formatLocalDate,
+  formatLocalTime,
+  parseLocalDateTime,
+} from "./utils/format";
+import { DUPLICATE_DURATION_TOLERANCE } from "./constants";
 
 /**
- * Format a date as YYYY-MM-DD
+ * Rules applied when turning activities into worklogs
  */
-function formatDateYYYYMMDD(date: Date): string {
-  return date.toISOString().split("T")[0];
+export interface WorklogRules {
+  roundingMode: ConfigType["roundingMode"];
+  roundingMinutes: number;
+  minimumDurationMinutes: number;
+  shortEntryPolicy: ConfigType["shortEntryPolicy"];
+  consolidationGapMinutes: number;
+  timeZone?: string; // Time zone of worklog dates, the system one by default
 }
 
 /**
- * Format a time as HH:MM
+ * A worklog to be created in Tempo, with the activities it was built from
+ *
+ * Worklogs rebuilt after a local edit replace an existing Tempo worklog.
+ */
+export interface PlannedWorklog {
+  worklog: TempoWorklog;
+  date: string; // Local day (YYYY-MM-DD) the worklog was tracked on
+  activityIds: string[];
+  tempoWorklogId?: number;
+}
+
+/**
+ * Result of turning activities into worklogs
+ */
+export interface WorklogPlan {
+  worklogs: PlannedWorklog[];
+  dropped: ActivityLogEntry[];
+}
+
+/**
+ * Selects the activities to sync
+ *
+ * Without a date or range only today is synced; allUnsynced syncs every day
+ * with unsynced time, within the range if one is given.
+ */
+export interface SyncFilter {
+  date?: string; // YYYY-MM-DD
+  from?: string; // First day of a range (YYYY-MM-DD)
+  to?: string; // Last day of a range (YYYY-MM-DD), today by default
+  allUnsynced?: boolean;
+  issue?: string; // Jira issue key or ID
+}
+
+/**
+ * The worklogs planned for one day, or why they couldn't be planned
+ *
+ * Rebuilding the worklogs of edited entries can leave existing Tempo
+ * worklogs without any entries; those are deleted.
+ */
+export interface DayWorklogPlan {
+  date: string; // YYYY-MM-DD
+  activities: ActivityLogEntry[];
+  plan?: WorklogPlan;
+  deletions: number[];
+  error?: string;
+}
+
+/**
+ * A worklog a sync would create, with the reasons Tempo would reject it
+ *
+ * Activities that can't be turned into a worklog have no worklog.
+ */
+export interface WorklogPreview {
+  date: string; // YYYY-MM-DD
+  activityIds: string[];
+  issueKey?: string;
+  worklog?: TempoWorklog;
+  tempoWorklogId?: number; // Existing worklog that would be updated
+  problems: string[];
+}
+
+/**
+ * The worklogs a sync would create, update and delete
+ */
+export interface SyncPreview {
+  worklogs: WorklogPreview[];
+  deletions: number[];
+  dropped: number;
+}
+
+/**
+ * A worklog that wasn't created because Tempo already has a matching one,
+ * which its entries were linked to instead
+ */
+export interface SkippedDuplicate {
+  date: string; // YYYY-MM-DD
+  activityIds: string[];
+  issueKey?: string;
+  worklog: TempoWorklog;
+  tempoWorklogId: number; // The matching worklog in Tempo
+}
+
+/**
+ * A planned worklog that wasn't sent because Tempo would reject it
+ */
+export interface InvalidWorklog {
+  date: string; // YYYY-MM-DD
+  activityIds: string[];
+  issueKey?: string;
+  problems: string[];
+}
+
+/**
+ * Options of a sync
+ *
+ * Unless forced, worklogs matching one already in Tempo are skipped.
+ */
+export interface SyncOptions {
+  force?: boolean;
+}
+
+/**
+ * Outcome of syncing one day
+ */
+export interface DaySyncResult {
+  date: string; // YYYY-MM-DD
+  synced: number;
+  updated: number; // Tempo worklogs updated after local edits
+  duplicates: number; // Worklogs linked to matching ones already in Tempo
+  queued: number; // Activities whose worklogs are retried later
+  failed: number;
+  dropped: number;
+  bookedSeconds: number;
+  error?: string; // Why the worklogs of the day couldn't be prepared
+}
+
+/**
+ * Outcome of a sync, in total and per day
  */
-function formatTimeHHMM(date: Date): string {
-  return date.toTimeString().substring(0, 5);
+export interface SyncResult {
+  synced: number;
+  updated: number;
+  deleted: number; // Tempo worklogs deleted
+  queued: number;
+  failed: number;
+  dropped: number;
+  days: DaySyncResult[];
+  duplicates: SkippedDuplicate[];
+  invalid: InvalidWorklog[]; // Worklogs not sent, counted as failed
+  processed: ProcessedOperation[]; // Every outbox operation attempted
+}
+
+/**
+ * An outbox operation after an attempt to send it
+ *
+ * - sent: Tempo has the change
+ * - duplicate: not created, the entries were linked to the matching worklog
+ *   already in Tempo
+ * - queued: failed for now or wasn't due yet, and is retried later
+ * - failed: Tempo rejected it; it is only retried by syncing again
+ */
+export interface ProcessedOperation {
+  operation: OutboxOperation;
+  status: "sent" | "duplicate" | "queued" | "failed";
+  tempoWorklogId?: number; // Worklog sent, or the one a duplicate matches
+  error?: string;
+}
+
+// Worklog rules that book the exact tracked time
+export const DEFAULT_WORKLOG_RULES: WorklogRules = {
+  roundingMode: "none",
+  roundingMinutes: 15,
+  minimumDurationMinutes: 0,
+  shortEntryPolicy: "drop",
+  consolidationGapMinutes: 5,
+};
+
+/**
+ * Get the worklog rules from the configuration
+ */
+export function getWorklogRules(config: ConfigType): WorklogRules {
+  return {
+    roundingMode: config.roundingMode,
+    roundingMinutes: config.roundingMinutes,
+    minimumDurationMinutes: config.minimumDurationMinutes,
+    shortEntryPolicy: config.shortEntryPolicy,
+    consolidationGapMinutes: config.consolidationGapMinutes,
+    timeZone: config.timeZone || undefined,
+  };
+}
+
+/**
+ * Round a duration in seconds according to the rounding rules
+ */
+export function roundDurationSeconds(
+  seconds: number,
+  rules: Pick<WorklogRules, "roundingMode" | "roundingMinutes">,
+): number {
+  const step = rules.roundingMinutes * 60;
+
+  if (rules.roundingMode === "none" || step <= 0) {
+    return seconds;
+  }
+
+  const steps = seconds / step;
+  const rounded =
+    rules.roundingMode === "up"
+      ? Math.ceil(steps)
+      : rules.roundingMode === "down"
+        ? Math.floor(steps)
+        : Math.round(steps);
+
+  return rounded * step;
+}
+
+/**
+ * Check if an activity is shorter than the minimum duration
+ */
+export function isBelowMinimumDuration(
+  activity: ActivityLogEntry,
+  rules: Pick<WorklogRules, "minimumDurationMinutes">,
+): boolean {
+  return (
+    getActivityDurationMs(activity) < rules.minimumDurationMinutes * 60 * 1000
+  );
 }
 
 /**
@@ -32,102 +268,1145 @@ function formatTimeHHMM(date: Date): string {
 export function activityToWorklog(
   activity: ActivityLogEntry,
   authorAccountId: string,
+  timeZone?: string,
 ): TempoWorklog {
   if (!activity.endTime) {
     throw new Error("Activity must have an end time to create a worklog");
   }
 
   const startDate = new Date(activity.startTime);
-  const endDate = new Date(activity.endTime);
 
-  // Calculate duration in seconds
-  const durationMs = getSessionDurationMs(activity.startTime, activity.endTime);
+  // Calculate duration in seconds, excluding paused time
+  const durationMs = getActivityDurationMs(activity);
   const durationSeconds = Math.round(durationMs / 1000);
 
   return {
     issueId: activity.issueId,
     timeSpentSeconds: durationSeconds,
-    startDate: formatDateYYYYMMDD(startDate),
-    startTime: formatTimeHHMM(startDate),
-    description: activity.description || `Work on branch ${activity.branch}`,
+    startDate: formatLocalDate(startDate, timeZone),
+    startTime: formatLocalTime(startDate, timeZone),
+    description:
+      activity.description ||
+      (activity.branch
+        ? `Work on branch ${activity.branch}`
+        : `Work on ${activity.issueKey ?? activity.issueId}`),
     authorAccountId,
   };
 }
 
 /**
- * Sync an activity log entry with Tempo
+ * A worklog being built from one or more activities
  */
-export async function syncActivityToTempo(
-  activity: ActivityLogEntry,
+interface WorklogItem {
+  start: number;
+  end: number;
+  worklog: TempoWorklog;
+  activities: ActivityLogEntry[];
+}
+
+/**
+ * Merge worklogs of the same day, issue and description that follow each
+ * other within the consolidation gap
+ *
+ * Only directly consecutive worklogs are merged, so work on another issue
+ * in between keeps them apart.
+ */
+function consolidateWorklogItems(
+  items: WorklogItem[],
+  rules: Pick<WorklogRules, "consolidationGapMinutes">,
+): WorklogItem[] {
+  const gapMs = rules.consolidationGapMinutes * 60 * 1000;
+  const consolidated: WorklogItem[] = [];
+  const lastByDate = new Map<string, WorklogItem>();
+
+  for (const item of [...items].sort((a, b) => a.start - b.start)) {
+    const previous = lastByDate.get(item.worklog.startDate);
+
+    if (
+      previous &&
+      previous.worklog.issueId === item.worklog.issueId &&
+      previous.worklog.description === item.worklog.description &&
+      item.start - previous.end <= gapMs
+    ) {
+      previous.worklog.timeSpentSeconds += item.worklog.timeSpentSeconds;
+      previous.end = Math.max(previous.end, item.end);
+      previous.activities.push(...item.activities);
+    } else {
+      consolidated.push(item);
+      lastByDate.set(item.worklog.startDate, item);
+    }
+  }
+
+  return consolidated;
+}
+
+/**
+ * Turn activities into the worklogs that should be created in Tempo
+ *
+ * Activities shorter than the minimum duration are dropped, or merged into
+ * the closest activity of the same day, depending on the short entry
+ * policy. Activities with the same issue and description that follow each
+ * other within the consolidation gap become a single worklog. Durations
+ * are then rounded; worklogs that round down to nothing are dropped as
+ * well. The activities themselves are left untouched.
+ */
+export function buildWorklogs(
+  activities: ActivityLogEntry[],
   authorAccountId: string,
+  rules: WorklogRules,
+): WorklogPlan {
+  const dropped: ActivityLogEntry[] = [];
+  const finished = activities
+    .filter((activity) => activity.endTime)
+    .sort(
+      (a, b) =>
+        new Date(a.startTime).getTime() - new Date(b.startTime).getTime(),
+    );
+
+  const items: WorklogItem[] = finished
+    .filter((activity) => !isBelowMinimumDuration(activity, rules))
+    .map((activity) => ({
+      start: new Date(activity.startTime).getTime(),
+      end: new Date(activity.endTime!).getTime(),
+      worklog: activityToWorklog(activity, authorAccountId, rules.timeZone),
+      activities: [activity],
+    }));
+
+  // Drop short activities or merge them into their closest neighbour
+  for (const activity of finished) {
+    if (!isBelowMinimumDuration(activity, rules)) {
+      continue;
+    }
+
+    const worklog = activityToWorklog(
+      activity,
+      authorAccountId,
+      rules.timeZone,
+    );
+    const start = new Date(activity.startTime).getTime();
+    const neighbour =
+      rules.shortEntryPolicy === "merge"
+        ? items
+            .filter((item) => item.worklog.startDate === worklog.startDate)
+            .sort(
+              (a, b) => Math.abs(a.start - start) - Math.abs(b.start - start),
+            )[0]
+        : undefined;
+
+    if (neighbour) {
+      neighbour.worklog.timeSpentSeconds += worklog.timeSpentSeconds;
+      neighbour.end = Math.max(
+        neighbour.end,
+        new Date(activity.endTime!).getTime(),
+      );
+      neighbour.activities.push(activity);
+    } else {
+      dropped.push(activity);
+    }
+  }
+
+  // Round the durations of the consolidated worklogs
+  const worklogs: PlannedWorklog[] = [];
+  for (const item of consolidateWorklogItems(items, rules)) {
+    const timeSpentSeconds = roundDurationSeconds(
+      item.worklog.timeSpentSeconds,
+      rules,
+    );
+
+    if (timeSpentSeconds <= 0) {
+      dropped.push(...item.activities);
+      continue;
+    }
+
+    worklogs.push({
+      worklog: { ...item.worklog, timeSpentSeconds },
+      date: formatLocalDate(new Date(item.start), rules.timeZone),
+      activityIds: item.activities.map((activity) => activity.id),
+    });
+  }
+
+  return { worklogs, dropped };
+}
+
+/**
+ * Get the durations activities are booked with, by activity ID
+ *
+ * The finished activities of each day are turned into worklogs the way a
+ * sync does. A worklog made of several activities shares its rounded
+ * duration between them by their tracked time. Activities that aren't
+ * booked on any day map to null.
+ */
+export function getBookedDurations(
+  activities: ActivityLogEntry[],
+  rules: WorklogRules,
+): Map<string, number | null> {
+  const partsByDate = new Map<string, ActivityLogEntry[]>();
+  for (const activity of activities.filter((entry) => entry.endTime)) {
+    for (const part of splitActivityByDay(activity, rules.timeZone)) {
+      const date = formatLocalDate(new Date(part.startTime), rules.timeZone);
+      partsByDate.set(date, [...(partsByDate.get(date) ?? []), part]);
+    }
+  }
+
+  const booked = new Map<string, number | null>();
+  for (const parts of partsByDate.values()) {
+    const { worklogs, dropped } = buildWorklogs(parts, "", rules);
+
+    for (const activity of dropped) {
+      if (!booked.has(activity.id)) {
+        booked.set(activity.id, null);
+      }
+    }
+
+    for (const planned of worklogs) {
+      const members = parts.filter((part) =>
+        planned.activityIds.includes(part.id),
+      );
+      const trackedMs = members.reduce(
+        (total, part) => total + getActivityDurationMs(part),
+        0,
+      );
+
+      for (const part of members) {
+        const share =
+          trackedMs > 0
+            ? (planned.worklog.timeSpentSeconds * getActivityDurationMs(part)) /
+              trackedMs
+            : 0;
+        booked.set(part.id, (booked.get(part.id) ?? 0) + Math.round(share));
+      }
+    }
+  }
+
+  return booked;
+}
+
+/**
+ * Resolve the issue IDs of activities that only know their issue key
+ *
+ * A dry run doesn't store the IDs and leaves issues that can't be resolved
+ * without an ID instead of failing.
+ */
+async function resolveActivityIssues(
+  activities: ActivityLogEntry[],
+  dryRun = false,
+): Promise<ActivityLogEntry[]> {
+  const resolved: ActivityLogEntry[] = [];
+
+  for (const activity of activities) {
+    if (activity.issueId || !activity.issueKey) {
+      resolved.push(activity);
+      continue;
+    }
+
+    if (dryRun) {
+      const issueId = await resolveIssueKey(activity.issueKey).catch(() => 0);
+      resolved.push({ ...activity, issueId });
+      continue;
+    }
+
+    const issueId = await resolveIssueKey(activity.issueKey);
+    await updateActivityLog(activity.id, { issueId });
+    resolved.push({ ...activity, issueId });
+  }
+
+  return resolved;
+}
+
+/**
+ * Check if the work of an activity on one day has been synced
+ *
+ * Entries synced before Tempo worklog IDs were stored only know whether
+ * they, or some of their days, were synced.
+ */
+function isSyncedOn(activity: ActivityLogEntry, date: string): boolean {
+  return (
+    activity.tempoWorklogIds?.[date] !== undefined ||
+    !!activity.syncedDates?.includes(date) ||
+    (activity.synced && !activity.tempoWorklogIds)
+  );
+}
+
+/**
+ * Check if the work of an activity on one day was dropped by the worklog
+ * rules, so it isn't planned again until the activity changes
+ */
+function isDroppedOn(activity: ActivityLogEntry, date: string): boolean {
+  return !!activity.droppedDates?.includes(date);
+}
+
+/**
+ * Get the sync state of an activity from the state of each of its days
+ *
+ * Activities crossing midnight are synced one day at a time and only count
+ * as synced once every day has been synced or dropped. Activities whose
+ * days were all dropped count as dropped instead.
+ */
+function getSyncState(
+  activity: ActivityLogEntry,
+  timeZone?: string,
+): Pick<ActivityLogEntry, "synced" | "dropped"> {
+  const dates = getActivityDates(activity, timeZone);
+  const dropped = dates.every((date) => isDroppedOn(activity, date));
+  const handled = dates.every(
+    (date) => isSyncedOn(activity, date) || isDroppedOn(activity, date),
+  );
+
+  return { synced: handled && !dropped, dropped: dropped || undefined };
+}
+
+/**
+ * Mark the work of an activity on one day as synced to a Tempo worklog
+ */
+async function markActivitySynced(
+  activityId: string,
+  date: string,
+  tempoWorklogId: number,
+  timeZone?: string,
+): Promise<void> {
+  const activity = (await getActivityLog()).find(
+    (entry) => entry.id === activityId,
+  );
+
+  if (!activity) {
+    return;
+  }
+
+  const tempoWorklogIds = {
+    ...activity.tempoWorklogIds,
+    [date]: tempoWorklogId,
+  };
+
+  await updateActivityLog(activityId, {
+    tempoWorklogIds,
+    ...getSyncState({ ...activity, tempoWorklogIds }, timeZone),
+  });
+}
+
+/**
+ * Mark the work of an activity on one day as dropped, because it is below
+ * the minimum duration or rounds down to nothing
+ *
+ * A worklog the activity had on that day no longer includes it.
+ */
+async function markActivityDropped(
+  activityId: string,
+  date: string,
+  timeZone?: string,
+): Promise<void> {
+  const activity = (await getActivityLog()).find(
+    (entry) => entry.id === activityId,
+  );
+
+  if (!activity || isDroppedOn(activity, date)) {
+    return;
+  }
+
+  const { [date]: _, ...tempoWorklogIds } = activity.tempoWorklogIds ?? {};
+  const updated: ActivityLogEntry = {
+    ...activity,
+    tempoWorklogIds: activity.tempoWorklogIds && tempoWorklogIds,
+    syncedDates: activity.syncedDates?.filter((synced) => synced !== date),
+    droppedDates: [...(activity.droppedDates ?? []), date],
+  };
+
+  await updateActivityLog(activityId, {
+    tempoWorklogIds: updated.tempoWorklogIds,
+    syncedDates: updated.syncedDates,
+    droppedDates: updated.droppedDates,
+    ...getSyncState(updated, timeZone),
+  });
+}
+
+/**
+ * Forget the Tempo worklog of an activity on one day, after the work of the
+ * day moved to other worklogs or was removed
+ */
+async function unlinkActivityWorklog(
+  activityId: string,
+  date: string,
+): Promise<void> {
+  const activity = (await getActivityLog()).find(
+    (entry) => entry.id === activityId,
+  );
+
+  if (activity?.tempoWorklogIds?.[date] === undefined) {
+    return;
+  }
+
+  const { [date]: _, ...tempoWorklogIds } = activity.tempoWorklogIds;
+  await updateActivityLog(activityId, {
+    synced: false,
+    tempoWorklogIds,
+    syncedDates: activity.syncedDates?.filter((synced) => synced !== date),
+  });
+}
+
+/**
+ * Create or update a planned worklog in Tempo
+ *
+ * Tempo can't move a worklog to another issue, so a worklog whose issue
+ * changed is deleted and created again; onDeleted is called in between.
+ */
+async function pushWorklog(
+  planned: PlannedWorklog,
   apiKey: string,
   tempoBaseUrl: string,
-): Promise<boolean> {
-  try {
-    // Skip if already synced
-    if (activity.synced) {
-      return true;
+  onDeleted?: () => Promise<void>,
+): Promise<TempoWorklogResponse> {
+  if (planned.tempoWorklogId) {
+    const response = await updateTempoWorklog(
+      planned.tempoWorklogId,
+      planned.worklog,
+      apiKey,
+      tempoBaseUrl,
+    );
+
+    if (response.issue.id === planned.worklog.issueId) {
+      return response;
     }
 
-    // Convert to worklog
-    const worklog = activityToWorklog(activity, authorAccountId);
+    await deleteTempoWorklog(planned.tempoWorklogId, apiKey, tempoBaseUrl);
+    await onDeleted?.();
+  }
 
-    // Create worklog in Tempo
-    await createTempoWorklog(worklog, apiKey, tempoBaseUrl);
+  return createTempoWorklog(planned.worklog, apiKey, tempoBaseUrl);
+}
 
-    // Mark as synced
-    await updateActivityLog(activity.id, { synced: true });
+/**
+ * Check that a date is a day in YYYY-MM-DD format
+ */
+function assertDate(value: string, name: string): void {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(Date.parse(value))) {
+    throw new Error(`Invalid ${name} ${value}, expected YYYY-MM-DD`);
+  }
+}
+
+/**
+ * Get the first and last day (inclusive) selected by a sync filter
+ *
+ * An open end of the range is left undefined.
+ */
+export function getSyncDateRange(
+  filter: SyncFilter,
+  timeZone?: string,
+): { from?: string; to?: string } {
+  const today = formatLocalDate(new Date(), timeZone);
 
-    return true;
-  } catch (error) {
-    console.error(`Failed to sync activity ${activity.id}:`, error);
-    return false;
+  if (filter.date) {
+    if (filter.from || filter.to) {
+      throw new Error("Use either a single date or a date range, not both");
+    }
+
+    assertDate(filter.date, "date");
+    return { from: filter.date, to: filter.date };
   }
+
+  if (filter.from || filter.to) {
+    if (filter.from) {
+      assertDate(filter.from, "start date");
+    }
+    if (filter.to) {
+      assertDate(filter.to, "end date");
+    }
+
+    const to = filter.to ?? today;
+    if (filter.from && filter.from > to) {
+      throw new Error(`Start date ${filter.from} is after end date ${to}`);
+    }
+
+    return { from: filter.from, to };
+  }
+
+  return filter.allUnsynced ? {} : { from: today, to: today };
 }
 
 /**
- * Sync all unsynced activities for a specific date
+ * Plan the worklogs of every day with unsynced time selected by a filter
+ *
+ * Activities crossing midnight contribute their part of each day separately.
+ * The days of synced entries edited since are planned again together with
+ * the entries sharing their worklogs, reusing the existing worklogs where
+ * possible. Issue keys are resolved, but nothing is sent to Tempo. A dry run
+ * doesn't change the activity log either.
  */
-export async function syncActivitiesForDate(
-  date: string,
+export async function planWorklogSync(
+  filter: SyncFilter,
+  authorAccountId: string,
+  rules: WorklogRules = DEFAULT_WORKLOG_RULES,
+  options: { dryRun?: boolean } = {},
+): Promise<DayWorklogPlan[]> {
+  const { from, to } = getSyncDateRange(filter, rules.timeZone);
+  const isInRange = (date: string) =>
+    (!from || date >= from) && (!to || date <= to);
+
+  const activities = await getActivityLog();
+  const selected = filter.issue
+    ? await filterActivities(activities, {
+        issue: filter.issue,
+        includeSynced: true,
+      })
+    : activities;
+
+  // Worklogs to rebuild, by day, because one of their entries was edited
+  const rebuilt = new Map<string, Set<number>>();
+  for (const activity of selected.filter((entry) => entry.needsUpdate)) {
+    for (const [date, worklogId] of Object.entries(
+      activity.tempoWorklogIds ?? {},
+    )) {
+      if (isInRange(date)) {
+        rebuilt.set(date, (rebuilt.get(date) ?? new Set()).add(worklogId));
+      }
+    }
+  }
+
+  const activitiesByDate = new Map<string, ActivityLogEntry[]>(
+    [...rebuilt.keys()].map((date) => [date, []]),
+  );
+  for (const activity of activities) {
+    for (const part of splitActivityByDay(activity, rules.timeZone)) {
+      const date = formatLocalDate(new Date(part.startTime), rules.timeZone);
+      const worklogId = activity.tempoWorklogIds?.[date];
+
+      const isNew =
+        !isSyncedOn(activity, date) &&
+        !isDroppedOn(activity, date) &&
+        isInRange(date) &&
+        selected.includes(activity);
+      const isRebuilt =
+        worklogId !== undefined && !!rebuilt.get(date)?.has(worklogId);
+
+      if (isNew || isRebuilt) {
+        activitiesByDate.set(date, [
+          ...(activitiesByDate.get(date) ?? []),
+          part,
+        ]);
+      }
+    }
+  }
+
+  const days: DayWorklogPlan[] = [];
+  for (const date of [...activitiesByDate.keys()].sort()) {
+    const dayActivities = activitiesByDate.get(date)!;
+    const replaced = rebuilt.get(date) ?? new Set<number>();
+
+    try {
+      const plan = buildWorklogs(
+        await resolveActivityIssues(dayActivities, options.dryRun),
+        authorAccountId,
+        rules,
+      );
+
+      // Reuse the worklogs of the entries a rebuilt worklog is made of
+      const reused = new Set<number>();
+      for (const planned of plan.worklogs) {
+        planned.tempoWorklogId = planned.activityIds
+          .map(
+            (id) =>
+              activities.find((activity) => activity.id === id)
+                ?.tempoWorklogIds?.[date],
+          )
+          .find(
+            (worklogId): worklogId is number =>
+              worklogId !== undefined &&
+              replaced.has(worklogId) &&
+              !reused.has(worklogId),
+          );
+
+        if (planned.tempoWorklogId) {
+          reused.add(planned.tempoWorklogId);
+        }
+      }
+
+      days.push({
+        date,
+        activities: dayActivities,
+        plan,
+        deletions: [...replaced].filter((worklogId) => !reused.has(worklogId)),
+      });
+    } catch (error: any) {
+      days.push({
+        date,
+        activities: dayActivities,
+        deletions: [],
+        error: error.message,
+      });
+    }
+  }
+
+  return days;
+}
+
+/**
+ * Find the reasons Tempo would reject a worklog
+ */
+export function validateWorklog(worklog: TempoWorklog): string[] {
+  const problems: string[] = [];
+
+  if (!worklog.issueId) {
+    problems.push("Issue ID is 0, the issue key could not be resolved");
+  }
+
+  if (worklog.timeSpentSeconds <= 0) {
+    problems.push("Duration is zero");
+  }
+
+  if (!worklog.authorAccountId) {
+    problems.push("Jira account ID is not configured");
+  }
+
+  return problems;
+}
+
+/**
+ * Find a worklog in Tempo that a new worklog duplicates
+ *
+ * A worklog is a duplicate if it is on the same issue, overlaps the new
+ * worklog and has a similar duration.
+ */
+export function findDuplicateWorklog(
+  worklog: TempoWorklog,
+  existing: TempoWorklogResponse[],
+  timeZone?: string,
+): TempoWorklogResponse | undefined {
+  const start = parseLocalDateTime(
+    worklog.startDate,
+    worklog.startTime,
+    timeZone,
+  ).getTime();
+  const end = start + worklog.timeSpentSeconds * 1000;
+
+  return existing.find((candidate) => {
+    const candidateStart = new Date(candidate.startDateTimeUtc).getTime();
+    const candidateEnd = candidateStart + candidate.timeSpentSeconds * 1000;
+    const longest = Math.max(
+      worklog.timeSpentSeconds,
+      candidate.timeSpentSeconds,
+    );
+
+    return (
+      candidate.issue.id === worklog.issueId &&
+      candidateStart < end &&
+      candidateEnd > start &&
+      Math.abs(worklog.timeSpentSeconds - candidate.timeSpentSeconds) <=
+        longest * DUPLICATE_DURATION_TOLERANCE
+    );
+  });
+}
+
+/**
+ * Get the IDs of the Tempo worklogs local entries were synced to
+ *
+ * These are Tempo CLI's own worklogs, so new worklogs never duplicate them.
+ */
+function getLinkedWorklogIds(activities: ActivityLogEntry[]): Set<number> {
+  return new Set(
+    activities.flatMap((activity) =>
+      Object.values(activity.tempoWorklogIds ?? {}),
+    ),
+  );
+}
+
+/**
+ * Find the new worklogs of a day that duplicate worklogs already in Tempo
+ *
+ * Returns the ID of the matching Tempo worklog for each duplicate. Worklogs
+ * of local entries, or being updated or deleted by the sync itself, aren't
+ * matched against.
+ */
+async function findDayDuplicates(
+  day: DayWorklogPlan,
   authorAccountId: string,
   apiKey: string,
   tempoBaseUrl: string,
-): Promise<{ synced: number; failed: number }> {
-  const activities = await getActivityLog();
+  timeZone?: string,
+): Promise<Map<PlannedWorklog, number>> {
+  const duplicates = new Map<PlannedWorklog, number>();
+  const newWorklogs =
+    day.plan?.worklogs.filter((planned) => !planned.tempoWorklogId) ?? [];
 
-  // Filter activities for the specified date
-  const dateStart = new Date(date);
-  dateStart.setHours(0, 0, 0, 0);
+  if (newWorklogs.length === 0) {
+    return duplicates;
+  }
+
+  const ownIds = getLinkedWorklogIds(await getActivityLog());
+  day.deletions.forEach((worklogId) => ownIds.add(worklogId));
+  const existing = (
+    await getWorklogsForDate(day.date, authorAccountId, apiKey, tempoBaseUrl)
+  ).filter((worklog) => !ownIds.has(worklog.tempoWorklogId));
+
+  for (const planned of newWorklogs) {
+    const duplicate = findDuplicateWorklog(planned.worklog, existing, timeZone);
 
-  const dateEnd = new Date(date);
-  dateEnd.setHours(23, 59, 59, 999);
+    if (duplicate) {
+      duplicates.set(planned, duplicate.tempoWorklogId);
+    }
+  }
 
-  const activitiesForDate = activities.filter((activity: ActivityLogEntry) => {
-    const activityDate = new Date(activity.startTime);
-    return activityDate >= dateStart && activityDate <= dateEnd;
+  return duplicates;
+}
+
+/**
+ * Preview the worklogs a sync would create, update and delete, without
+ * sending or storing anything
+ */
+export async function previewWorklogSync(
+  filter: SyncFilter,
+  authorAccountId: string,
+  rules: WorklogRules = DEFAULT_WORKLOG_RULES,
+  tempo?: { apiKey: string; tempoBaseUrl: string } & SyncOptions,
+): Promise<SyncPreview> {
+  const preview: SyncPreview = {
+    worklogs: [],
+    deletions: (await getOutbox())
+      .filter((operation) => operation.type === "delete")
+      .map((operation) => operation.tempoWorklogId!),
+    dropped: 0,
+  };
+  const days = await planWorklogSync(filter, authorAccountId, rules, {
+    dryRun: true,
   });
 
-  // Sync each activity
-  let synced = 0;
-  let failed = 0;
+  for (const day of days) {
+    for (const activity of day.activities) {
+      if (!activity.endTime) {
+        preview.worklogs.push({
+          date: day.date,
+          activityIds: [activity.id],
+          issueKey: activity.issueKey,
+          problems: ["Entry has no end time"],
+        });
+      }
+    }
 
-  for (const activity of activitiesForDate) {
-    if (!activity.synced) {
-      const success = await syncActivityToTempo(
-        activity,
-        authorAccountId,
+    if (!day.plan) {
+      preview.worklogs.push({
+        date: day.date,
+        activityIds: day.activities.map((activity) => activity.id),
+        problems: [day.error ?? "Worklogs could not be prepared"],
+      });
+      continue;
+    }
+
+    // Only check for duplicates when Tempo can be asked
+    const duplicates =
+      tempo && !tempo.force
+        ? await findDayDuplicates(
+            day,
+            authorAccountId,
+            tempo.apiKey,
+            tempo.tempoBaseUrl,
+            rules.timeZone,
+          )
+        : new Map<PlannedWorklog, number>();
+
+    for (const planned of day.plan.worklogs) {
+      const activity = day.activities.find(
+        (entry) => entry.id === planned.activityIds[0],
+      );
+      const problems = validateWorklog(planned.worklog);
+      const duplicateId = duplicates.get(planned);
+
+      if (duplicateId) {
+        problems.push(`Duplicates Tempo worklog ${duplicateId}`);
+      }
+
+      preview.worklogs.push({
+        date: planned.date,
+        activityIds: planned.activityIds,
+        issueKey: activity?.issueKey,
+        worklog: planned.worklog,
+        tempoWorklogId: planned.tempoWorklogId,
+        problems,
+      });
+    }
+
+    preview.deletions.push(...day.deletions);
+    preview.dropped += day.plan.dropped.length;
+  }
+
+  return preview;
+}
+
+/**
+ * Send the due operations of the outbox to Tempo
+ *
+ * Sent operations leave the outbox. Transient failures are retried with
+ * exponential backoff; when Tempo rate limits, nothing else is sent before
+ * the time it asked for. Operations Tempo rejects stay in the outbox as
+ * failed.
+ */
+export async function processOutbox(
+  apiKey: string,
+  tempoBaseUrl: string,
+  timeZone?: string,
+): Promise<ProcessedOperation[]> {
+  const outbox = await getOutbox();
+  const due = outbox.filter((operation) => isOperationDue(operation));
+  const processed: ProcessedOperation[] = [];
+
+  // Tempo worklogs by day, to find duplicates of new worklogs. Worklogs of
+  // local entries, created by this run or updated or deleted by the outbox
+  // aren't matched against.
+  const existingByDate = new Map<string, TempoWorklogResponse[]>();
+  const createdIds = new Set<number>();
+
+  for (const [index, operation] of due.entries()) {
+    try {
+      if (operation.type === "delete") {
+        await deleteTempoWorklog(
+          operation.tempoWorklogId!,
+          apiKey,
+          tempoBaseUrl,
+        );
+
+        if (operation.date) {
+          for (const activityId of operation.activityIds) {
+            await unlinkActivityWorklog(activityId, operation.date);
+          }
+        }
+
+        await removeOperations([operation.id]);
+        processed.push({
+          operation,
+          status: "sent",
+          tempoWorklogId: operation.tempoWorklogId,
+        });
+        continue;
+      }
+
+      const planned: PlannedWorklog = {
+        worklog: operation.worklog!,
+        date: operation.date!,
+        activityIds: operation.activityIds,
+        tempoWorklogId: operation.tempoWorklogId,
+      };
+
+      // Don't book time twice, e.g. after syncing from another machine
+      if (operation.type === "create" && !operation.force) {
+        let existing = existingByDate.get(planned.date);
+        if (!existing) {
+          const ownIds = new Set([
+            ...getLinkedWorklogIds(await getActivityLog()),
+            ...outbox.map((queued) => queued.tempoWorklogId),
+            ...createdIds,
+          ]);
+
+          existing = (
+            await getWorklogsForDate(
+              planned.date,
+              planned.worklog.authorAccountId,
+              apiKey,
+              tempoBaseUrl,
+            )
+          ).filter((worklog) => !ownIds.has(worklog.tempoWorklogId));
+          existingByDate.set(planned.date, existing);
+        }
+
+        const duplicate = findDuplicateWorklog(
+          planned.worklog,
+          existing,
+          timeZone,
+        );
+        if (duplicate) {
+          // The entries are booked by that worklog, so link them to it
+          for (const activityId of planned.activityIds) {
+            await markActivitySynced(
+              activityId,
+              planned.date,
+              duplicate.tempoWorklogId,
+              timeZone,
+            );
+          }
+
+          await removeOperations([operation.id]);
+          processed.push({
+            operation,
+            status: "duplicate",
+            tempoWorklogId: duplicate.tempoWorklogId,
+          });
+          continue;
+        }
+      }
+
+      const response = await pushWorklog(
+        planned,
         apiKey,
         tempoBaseUrl,
+        async () => {
+          // The old worklog is gone, so a retry has to create a new one
+          for (const activityId of planned.activityIds) {
+            await unlinkActivityWorklog(activityId, planned.date);
+          }
+          await updateOperation(operation.id, {
+            type: "create",
+            tempoWorklogId: undefined,
+          });
+        },
+      );
+
+      for (const activityId of planned.activityIds) {
+        await markActivitySynced(
+          activityId,
+          planned.date,
+          response.tempoWorklogId,
+          timeZone,
+        );
+      }
+
+      createdIds.add(response.tempoWorklogId);
+      await removeOperations([operation.id]);
+      processed.push({
+        operation,
+        status: "sent",
+        tempoWorklogId: response.tempoWorklogId,
+      });
+    } catch (error) {
+      const tempoError = classifyTempoError(error);
+      const attempts = operation.attempts + 1;
+
+      if (!tempoError.transient) {
+        await updateOperation(operation.id, {
+          attempts,
+          failed: true,
+          nextAttemptAt: undefined,
+          lastError: tempoError.message,
+        });
+        processed.push({
+          operation,
+          status: "failed",
+          error: tempoError.message,
+        });
+        continue;
+      }
+
+      const nextAttemptAt = new Date(
+        Date.now() + getRetryDelayMs(attempts, tempoError.retryAfterMs),
+      ).toISOString();
+      await updateOperation(operation.id, {
+        attempts,
+        nextAttemptAt,
+        lastError: tempoError.message,
+      });
+      processed.push({
+        operation,
+        status: "queued",
+        error: tempoError.message,
+      });
+
+      // Wait for the rate limit to pass before sending anything else
+      if (tempoError.rateLimited) {
+        for (const postponed of due.slice(index + 1)) {
+          await updateOperation(postponed.id, { nextAttemptAt });
+          processed.push({ operation: postponed, status: "queued" });
+        }
+        break;
+      }
+    }
+  }
+
+  return processed;
+}
+
+/**
+ * Sync the activities selected by a filter, one day at a time
+ *
+ * Queues worklogs for new work, updates of the worklogs of entries edited
+ * since they were synced and deletions of worklogs left without entries in
+ * the outbox, then sends the outbox. Operations that fail for now stay
+ * queued for the daemon to retry. Dropped work is remembered, so it isn't
+ * planned again by later syncs.
+ */
+export async function syncActivities(
+  filter: SyncFilter,
+  authorAccountId: string,
+  apiKey: string,
+  tempoBaseUrl: string,
+  rules: WorklogRules = DEFAULT_WORKLOG_RULES,
+  options: SyncOptions = {},
+): Promise<SyncResult> {
+  const result: SyncResult = {
+    synced: 0,
+    updated: 0,
+    deleted: 0,
+    queued: 0,
+    failed: 0,
+    dropped: 0,
+    days: [],
+    duplicates: [],
+    invalid: [],
+    processed: [],
+  };
+  const unfinishedActivityIds = new Set<string>();
+  const days = await planWorklogSync(filter, authorAccountId, rules);
+  const dayOperations = new Map<string, OutboxOperation[]>();
+
+  for (const day of days) {
+    // Reported with the results of the day
+    if (!day.plan) {
+      continue;
+    }
+
+    const issueKeyOf = (planned: PlannedWorklog) =>
+      day.activities.find((activity) => activity.id === planned.activityIds[0])
+        ?.issueKey;
+
+    // Don't send what Tempo would reject, or keep retrying it
+    const valid: PlannedWorklog[] = [];
+    for (const planned of day.plan.worklogs) {
+      const problems = validateWorklog(planned.worklog);
+
+      if (problems.length === 0) {
+        valid.push(planned);
+        continue;
+      }
+
+      result.invalid.push({
+        date: day.date,
+        activityIds: planned.activityIds,
+        issueKey: issueKeyOf(planned),
+        problems,
+      });
+      await discardQueuedOperations(planned.activityIds);
+    }
+
+    const activities = await getActivityLog();
+    dayOperations.set(
+      day.date,
+      await enqueueOperations([
+        ...valid.map((planned) => ({
+          type: planned.tempoWorklogId
+            ? ("update" as const)
+            : ("create" as const),
+          date: day.date,
+          activityIds: planned.activityIds,
+          worklog: planned.worklog,
+          issueKey: issueKeyOf(planned),
+          tempoWorklogId: planned.tempoWorklogId,
+          force: options.force,
+        })),
+        // Remove the worklogs no rebuilt worklog took the place of
+        ...day.deletions.map((worklogId) => ({
+          type: "delete" as const,
+          date: day.date,
+          activityIds: activities
+            .filter(
+              (activity) => activity.tempoWorklogIds?.[day.date] === worklogId,
+            )
+            .map((activity) => activity.id),
+          tempoWorklogId: worklogId,
+        })),
+      ]),
+    );
+
+    for (const activity of day.plan.dropped) {
+      await markActivityDropped(activity.id, day.date, rules.timeZone);
+    }
+  }
+
+  // Also sends what earlier syncs and deleted entries left in the outbox
+  const processed = await processOutbox(apiKey, tempoBaseUrl, rules.timeZone);
+  result.processed = processed;
+  result.deleted = processed.filter(
+    ({ operation, status }) => operation.type === "delete" && status === "sent",
+  ).length;
+
+  for (const day of days) {
+    const dayResult: DaySyncResult = {
+      date: day.date,
+      synced: 0,
+      updated: 0,
+      duplicates: 0,
+      queued: 0,
+      failed: 0,
+      dropped: day.plan?.dropped.length ?? 0,
+      bookedSeconds: 0,
+      error: day.error,
+    };
+
+    if (!day.plan) {
+      dayResult.failed = day.activities.length;
+      day.activities.forEach((activity) =>
+        unfinishedActivityIds.add(activity.id),
+      );
+    }
+
+    for (const invalid of result.invalid) {
+      if (invalid.date === day.date) {
+        dayResult.failed += invalid.activityIds.length;
+        invalid.activityIds.forEach((id) => unfinishedActivityIds.add(id));
+      }
+    }
+
+    for (const operation of dayOperations.get(day.date) ?? []) {
+      const outcome = processed.find(
+        (entry) => entry.operation.id === operation.id,
       );
+      const activityCount =
+        operation.type === "delete" ? 0 : operation.activityIds.length;
 
-      if (success) {
-        synced++;
-      } else {
-        failed++;
+      switch (outcome?.status) {
+        case "sent":
+          if (operation.type === "update") {
+            dayResult.updated++;
+          } else if (operation.type === "create") {
+            dayResult.synced += activityCount;
+          }
+          dayResult.bookedSeconds += operation.worklog?.timeSpentSeconds ?? 0;
+          break;
+        case "duplicate":
+          dayResult.duplicates++;
+          result.duplicates.push({
+            date: day.date,
+            activityIds: operation.activityIds,
+            issueKey: operation.issueKey,
+            worklog: operation.worklog!,
+            tempoWorklogId: outcome.tempoWorklogId!,
+          });
+          break;
+        case "failed":
+          dayResult.failed += activityCount;
+          operation.activityIds.forEach((id) => unfinishedActivityIds.add(id));
+          break;
+        default:
+          dayResult.queued += activityCount;
+          operation.activityIds.forEach((id) => unfinishedActivityIds.add(id));
       }
     }
+
+    result.synced += dayResult.synced;
+    result.updated += dayResult.updated;
+    result.queued += dayResult.queued;
+    result.failed += dayResult.failed;
+    result.dropped += dayResult.dropped;
+    result.days.push(dayResult);
+  }
+
+  // Edited entries are up to date once all of their days were synced again
+  const { from, to } = getSyncDateRange(filter, rules.timeZone);
+  const activities = await getActivityLog();
+  const selected = filter.issue
+    ? await filterActivities(activities, {
+        issue: filter.issue,
+        includeSynced: true,
+      })
+    : activities;
+
+  for (const activity of selected) {
+    const dates = [
+      ...Object.keys(activity.tempoWorklogIds ?? {}),
+      ...getActivityDates(activity, rules.timeZone),
+    ];
+
+    if (
+      activity.needsUpdate &&
+      activity.tempoWorklogIds &&
+      !unfinishedActivityIds.has(activity.id) &&
+      dates.every((date) => (!from || date >= from) && (!to || date <= to))
+    ) {
+      await updateActivityLog(activity.id, { needsUpdate: undefined });
+    }
   }
 
-  return { synced, failed };
+  return result;
 }